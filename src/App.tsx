@@ -1,51 +1,49 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo, useDeferredValue } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
 import './App.css'
-import { Search, Plus, X, Settings, Play, MessageSquare, Clock, Film, Youtube, Minimize2, Maximize2, ChevronDown, Check, Eye, EyeOff } from 'lucide-react'
+import { Search, Plus, X, Settings, Play, MessageSquare, Clock, Film, Youtube, Minimize2, Maximize2, ChevronDown, Check, Eye, EyeOff, AlertTriangle, Loader2, Square, ThumbsUp, Upload, Download, ChevronRight, Tag, Users, CalendarClock, Filter, ListPlus, ListX, ListVideo, SkipBack, SkipForward, BarChart3, CheckCheck, RotateCcw, CheckSquare, Keyboard, Bell, ArrowUp, WifiOff, Link2 } from 'lucide-react'
+import { toast, Toaster } from 'sonner'
+import type { Channel, ChannelFetchStatus, Video, CommunityPost, ContentType, FeedItem, FeedSource, FetchSettings, FilterRule, QuotaBudgetMode, WatchProgress } from '@/types'
+import { createYouTubeClient, describeError, getThumbnailUrl, SearchResultResource, YouTubeApiError } from '@/lib/youtube'
+import { applyShortsRule, FEED_RETENTION_FACTOR, isVideo, mergeFeedItems, pruneFeedItems } from '@/lib/feed'
+import { runWithConcurrency } from '@/lib/pool'
+import { FEED_SORT_OPTIONS, FeedLayout, FeedSort, isFeedSort, sortFeedItems } from '@/lib/sort'
+import { buildTimeline } from '@/lib/timeline'
+import { formatCount } from '@/lib/format'
+import { loadState, saveState } from '@/lib/storage'
+import { CHANNEL_LOOKUP_BATCH, isYouTubeVideoId, lookupChannels, lookupChannelsFromFeeds } from '@/lib/channels'
+import { buildOpml } from '@/lib/subscriptions'
+import { downloadTextFile } from '@/lib/files'
+import { createBackup, BackupFile, restoreBackup, RestoreMode } from '@/lib/backup'
+import { countWatchStateByGroup, isInGroup, moveChannel, orderGroups, removeGroup, reorderGroups, toggleChannelGroup } from '@/lib/groups'
+import { SubscriptionImport } from '@/components/SubscriptionImport'
+import { BackupRestore } from '@/components/BackupRestore'
+import { FilterRules, FilterRulesTab } from '@/components/FilterRules'
+import { applyFilterRules } from '@/lib/filters'
+import { isEmptyQuery, matchesFeedQuery, parseFeedQuery } from '@/lib/search'
+import { HighlightedText } from '@/components/HighlightedText'
+import { VideoPlayer } from '@/components/VideoPlayer'
+import { WatchLaterQueue } from '@/components/WatchLaterQueue'
+import { AnalyticsDashboard } from '@/components/AnalyticsDashboard'
+import { BulkActions } from '@/components/BulkActions'
+import { CommandPalette, PaletteAction, SettingChoice } from '@/components/CommandPalette'
+import { ShortcutsHelp } from '@/components/ShortcutsHelp'
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts'
+import { useAutoRefresh } from '@/hooks/use-auto-refresh'
+import { useOnlineStatus } from '@/hooks/use-online-status'
+import { findProviderForInput, providerFor, youtubeSource } from '@/lib/providers'
+import { SourceProvider, sourceOf, VideoRef } from '@/lib/sources'
+import { notificationsSupported, notifyNewUploads, requestNotificationPermission } from '@/lib/notifications'
+import { publishedBefore, updateMembership, updateWatchHistory } from '@/lib/bulk'
+import { hasReachedThreshold, progressPercent, recordProgress, resumePosition } from '@/lib/progress'
+import { currentLedger, DEFAULT_DAILY_QUOTA, estimateRefreshCost, msUntilQuotaReset, QUOTA_COSTS } from '@/lib/quota'
+import { useQuotaLedger } from '@/hooks/use-quota-ledger'
+import { useFeedRoute } from '@/hooks/use-feed-route'
+import { feedViewPath, ROUTES } from '@/lib/routes'
 
 // YouTube API configuration - replace with your own API key
 const YOUTUBE_API_KEY = import.meta.env.VITE_YOUTUBE_API_KEY || ''
 
-interface Channel {
-  id: string
-  name: string
-  thumbnail: string
-  uploadsPlaylistId?: string
-  contentTypes: {
-    longForm: boolean
-    shorts: boolean
-    community: boolean
-  }
-}
-
-interface Video {
-  id: string
-  title: string
-  thumbnail: string
-  channelName: string
-  channelId: string
-  publishedAt: string
-  viewCount: string
-  duration: string
-  type: 'longForm' | 'shorts' | 'community'
-}
-
-interface CommunityPost {
-  id: string
-  content: string
-  thumbnail: string
-  channelName: string
-  channelId: string
-  publishedAt: string
-  type: 'community'
-}
-
-type ContentType = 'longForm' | 'shorts' | 'community'
-
-interface FetchSettings {
-  maxVideosPerChannel: number
-  timeRangeDays: number
-}
-
 const TIME_RANGE_OPTIONS = [
   { value: 1, label: 'Last 24 hours' },
   { value: 7, label: 'Last 7 days' },
@@ -63,58 +61,180 @@ const MAX_VIDEOS_OPTIONS = [
   { value: 100, label: '100 videos' }
 ]
 
+const DEFAULT_FETCH_SETTINGS: FetchSettings = {
+  maxVideosPerChannel: 10,
+  timeRangeDays: 30,
+  dailyQuotaBudget: DEFAULT_DAILY_QUOTA,
+  quotaBudgetMode: 'warn',
+  fetchConcurrency: 4,
+  shortsMaxSeconds: 60,
+  autoMarkWatchedPercent: 90,
+  autoRefreshMinutes: 0,
+  feedSource: 'api'
+}
+
+const SHORTS_LENGTH_OPTIONS = [
+  { value: 60, label: 'Up to 1 minute' },
+  { value: 180, label: 'Up to 3 minutes' }
+]
+
+const CONCURRENCY_OPTIONS = [
+  { value: 1, label: 'One at a time' },
+  { value: 2, label: '2 channels' },
+  { value: 4, label: '4 channels' },
+  { value: 8, label: '8 channels' }
+]
+
+const AUTO_MARK_WATCHED_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 75, label: 'After 75%' },
+  { value: 90, label: 'After 90%' },
+  { value: 95, label: 'After 95%' },
+  { value: 100, label: 'At the end' }
+]
+
+const AUTO_REFRESH_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 15, label: 'Every 15 minutes' },
+  { value: 30, label: 'Every 30 minutes' },
+  { value: 60, label: 'Every hour' },
+  { value: 180, label: 'Every 3 hours' },
+  { value: 360, label: 'Every 6 hours' }
+]
+
+const FEED_SOURCE_OPTIONS: { value: FeedSource; label: string }[] = [
+  { value: 'api', label: 'YouTube API' },
+  { value: 'atom', label: 'Channel feeds (no API key)' },
+  { value: 'atomEnriched', label: 'Channel feeds + API details' }
+]
+
+// What is being dragged in the sidebar; a null group is the ungrouped section
+type SidebarDragItem =
+  | { kind: 'channel'; channelId: string; group: string | null }
+  | { kind: 'group'; group: string }
+
+function ChannelStatusIcon({ status }: { status: ChannelFetchStatus }) {
+  switch (status.state) {
+    case 'pending':
+      return <span className="channel-status pending" title="Waiting" />
+    case 'loading':
+      return <Loader2 size={12} className="channel-status loading spinning" aria-label="Fetching" />
+    case 'done':
+      return <Check size={12} className="channel-status done" aria-label={`${status.itemCount} new items`} />
+    case 'error':
+      return (
+        <span className="channel-status error" title={status.error}>
+          <AlertTriangle size={12} />
+        </span>
+      )
+    case 'cancelled':
+      return <span className="channel-status cancelled" title="Cancelled" />
+  }
+}
+
 function App() {
-  const [channels, setChannels] = useState<Channel[]>(() => {
-    const saved = localStorage.getItem('curatedChannels')
-    return saved ? JSON.parse(saved) : []
-  })
+  const [channels, setChannels] = useState<Channel[]>([])
   const [searchQuery, setSearchQuery] = useState('')
-  const [searchResults, setSearchResults] = useState<any[]>([])
+  const [searchResults, setSearchResults] = useState<SearchResultResource[]>([])
   const [isSearching, setIsSearching] = useState(false)
-  const [selectedChannel, setSelectedChannel] = useState<string | null>(null)
-  // Load cached videos from localStorage on initial render
-  const [videos, setVideos] = useState<(Video | CommunityPost)[]>(() => {
-    const saved = localStorage.getItem('cachedVideos')
-    if (saved) {
-      const data = JSON.parse(saved)
-      // Check if cache is from the last 24 hours
-      const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000
-      if (data.timestamp > oneDayAgo) {
-        return data.videos
-      }
-    }
-    return []
-  })
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [feedErrors, setFeedErrors] = useState<string[]>([])
+  const [videos, setVideos] = useState<FeedItem[]>([])
+  // Saved state is loaded from IndexedDB after the first render; nothing is
+  // written back until it has arrived
+  const [isHydrated, setIsHydrated] = useState(false)
+  // Set when stored data exists but could not be read; saving would overwrite it
+  const [loadFailed, setLoadFailed] = useState(false)
   const [isLoadingVideos, setIsLoadingVideos] = useState(false)
+  const [fetchProgress, setFetchProgress] = useState<{ done: number; total: number } | null>(null)
+  const [channelStatus, setChannelStatus] = useState<Record<string, ChannelFetchStatus>>({})
+  // `${group}/${channelId}` - a channel in several groups has a settings panel in each
   const [expandedSettings, setExpandedSettings] = useState<string | null>(null)
+  const [groupOrder, setGroupOrder] = useState<string[]>([])
+  const [filterRules, setFilterRules] = useState<FilterRule[]>([])
+  const [watchLater, setWatchLater] = useState<string[]>([])
+  // A one-off list such as "unwatched from this channel"; the Watch Later queue is used otherwise
+  const [playbackList, setPlaybackList] = useState<{ label: string; ids: string[] } | null>(null)
+  const [filterDialog, setFilterDialog] = useState<{ tab: FilterRulesTab; channelId?: string } | null>(null)
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(() => {
+    try {
+      return new Set(JSON.parse(localStorage.getItem('collapsedGroups') || '[]'))
+    } catch {
+      return new Set()
+    }
+  })
+  const [newGroupName, setNewGroupName] = useState('')
+  const [dragOverKey, setDragOverKey] = useState<string | null>(null)
   const [apiKey, setApiKey] = useState(() => localStorage.getItem('youtubeApiKey') || '')
   const [apiKeyApplied, setApiKeyApplied] = useState(false)
   const [showSettingsDropdown, setShowSettingsDropdown] = useState(false)
-  const [playingVideo, setPlayingVideo] = useState<Video | null>(null)
+  const [showImport, setShowImport] = useState(false)
+  const [showRestore, setShowRestore] = useState(false)
+  // Title of a /watch link to a video that is not in the feed
+  const [linkedVideo, setLinkedVideo] = useState<{ id: string; title: string } | null>(null)
   const [isPlayerExpanded, setIsPlayerExpanded] = useState(false)
-  const [fetchSettings, setFetchSettings] = useState<FetchSettings>(() => {
-    const saved = localStorage.getItem('fetchSettings')
-    return saved ? JSON.parse(saved) : { maxVideosPerChannel: 10, timeRangeDays: 30 }
+  const [fetchSettings, setFetchSettings] = useState<FetchSettings>(DEFAULT_FETCH_SETTINGS)
+  const { ledger: quotaLedger, recordUsage } = useQuotaLedger()
+  const { view: feedView, videoId: watchVideoId, isAnalytics, openView, openVideo, closeVideo, openAnalytics } = useFeedRoute()
+  // The feed search lives in ?q= so searches can be bookmarked like any other view
+  const [searchParams, setSearchParams] = useSearchParams()
+  const feedQuery = searchParams.get('q') || ''
+  const deferredFeedQuery = useDeferredValue(feedQuery)
+  const parsedFeedQuery = useMemo(() => parseFeedQuery(deferredFeedQuery), [deferredFeedQuery])
+  const todayQuota = currentLedger(quotaLedger)
+  const quotaUsedToday = todayQuota.used
+
+  const youtube = useMemo(() => createYouTubeClient(apiKey, { onRequest: recordUsage }), [apiKey, recordUsage])
+
+  const [feedLayout, setFeedLayout] = useState<FeedLayout>(() => localStorage.getItem('feedLayout') === 'timeline' ? 'timeline' : 'grouped')
+  // Each layout remembers its own sort
+  const [sortByLayout, setSortByLayout] = useState<Record<FeedLayout, FeedSort>>(() => {
+    const defaults: Record<FeedLayout, FeedSort> = { grouped: 'newest', timeline: 'newest' }
+    const saved = localStorage.getItem('feedSort')
+    // Older versions saved a single sort name for the grouped feed
+    if (isFeedSort(saved)) return { ...defaults, grouped: saved }
+    try {
+      const parsed = JSON.parse(saved || '{}')
+      return {
+        grouped: isFeedSort(parsed.grouped) ? parsed.grouped : defaults.grouped,
+        timeline: isFeedSort(parsed.timeline) ? parsed.timeline : defaults.timeline
+      }
+    } catch {
+      return defaults
+    }
   })
-
-  const getSnippetThumbnail = (snippet: any) => {
-    const thumbnails = snippet?.thumbnails
-    return thumbnails?.high?.url || thumbnails?.medium?.url || thumbnails?.default?.url || ''
-  }
-
-  const buildVideoKey = (item: Video | CommunityPost) => {
-    return `${item.type}-${item.channelId}-${item.id}`
-  }
+  const feedSort = sortByLayout[feedLayout]
 
   // Track watched videos
-  const [watchedVideos, setWatchedVideos] = useState<Set<string>>(() => {
-    const saved = localStorage.getItem('watchedVideos')
-    return saved ? new Set(JSON.parse(saved)) : new Set()
-  })
+  const [watchedVideos, setWatchedVideos] = useState<Set<string>>(new Set())
+  const [watchProgress, setWatchProgress] = useState<Record<string, WatchProgress>>({})
+  const [watchHistory, setWatchHistory] = useState<Record<string, string>>({})
+  const [dismissedItems, setDismissedItems] = useState<Set<string>>(new Set())
+  // Multi-select: clicking a card selects it instead of playing it
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // Card moved to with j/k
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const [showPalette, setShowPalette] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  // Items an auto-refresh found, kept out of the feed until the "N new" pill is clicked
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set())
+  // When a refresh last started, manual or automatic; the auto-refresh interval counts from here
+  const [lastRefreshAt, setLastRefreshAt] = useState<number | null>(() => Number(localStorage.getItem('lastRefreshAt')) || null)
 
   const settingsRef = useRef<HTMLDivElement>(null)
   const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const apiKeyInputRef = useRef<HTMLInputElement>(null)
+  const fetchControllerRef = useRef<AbortController | null>(null)
+  const dragItemRef = useRef<SidebarDragItem | null>(null)
+  const feedSearchRef = useRef<HTMLInputElement>(null)
+  const feedSectionRef = useRef<HTMLElement>(null)
+  // The channel list as it is now, for work that outlives the render it started in
+  const channelsRef = useRef(channels)
+
+  useEffect(() => {
+    channelsRef.current = channels
+  }, [channels])
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -127,44 +247,168 @@ function App() {
   }, [])
 
   useEffect(() => {
-    localStorage.setItem('curatedChannels', JSON.stringify(channels))
-  }, [channels])
+    loadState()
+      .then(({ state, recovered }) => {
+        const settings = { ...DEFAULT_FETCH_SETTINGS, ...state.fetchSettings }
+        setChannels(state.channels)
+        // Feeds stored before the retention limit may hold far more, or removed channels' items
+        setVideos(pruneFeedItems(state.videos, state.channels, settings.maxVideosPerChannel * FEED_RETENTION_FACTOR, new Set(state.watchLater)))
+        setWatchedVideos(new Set(state.watchedVideos))
+        setFetchSettings(settings)
+        setGroupOrder(state.groupOrder)
+        setFilterRules(state.filterRules)
+        setWatchLater(state.watchLater)
+        setWatchProgress(state.watchProgress)
+        setWatchHistory(state.watchHistory)
+        setDismissedItems(new Set(state.dismissed))
+        if (recovered.length > 0) {
+          setFeedErrors([`Some saved data could not be read and was reset: ${recovered.join(', ')}.`])
+        }
+      })
+      .catch(error => {
+        console.error('Error loading saved state:', error)
+        setLoadFailed(true)
+        setFeedErrors(['Saved data could not be loaded, so changes in this session will not be saved over it. Reload the page to try again.'])
+      })
+      .finally(() => setIsHydrated(true))
+  }, [])
+
+  // Only a successful load may be written back
+  const canSave = isHydrated && !loadFailed
+
+  useEffect(() => {
+    if (canSave) saveState('channels', channels)
+  }, [channels, canSave])
 
   useEffect(() => {
     localStorage.setItem('youtubeApiKey', apiKey)
   }, [apiKey])
 
   useEffect(() => {
-    localStorage.setItem('fetchSettings', JSON.stringify(fetchSettings))
-  }, [fetchSettings])
+    if (canSave) saveState('fetchSettings', fetchSettings)
+  }, [fetchSettings, canSave])
+
+  useEffect(() => {
+    if (canSave) saveState('watchedVideos', [...watchedVideos])
+  }, [watchedVideos, canSave])
+
+  useEffect(() => {
+    if (canSave) saveState('groupOrder', groupOrder)
+  }, [groupOrder, canSave])
+
+  useEffect(() => {
+    if (canSave) saveState('filterRules', filterRules)
+  }, [filterRules, canSave])
+
+  useEffect(() => {
+    if (canSave) saveState('watchLater', watchLater)
+  }, [watchLater, canSave])
+
+  useEffect(() => {
+    if (canSave) saveState('watchProgress', watchProgress)
+  }, [watchProgress, canSave])
+
+  useEffect(() => {
+    if (canSave) saveState('watchHistory', watchHistory)
+  }, [watchHistory, canSave])
+
+  useEffect(() => {
+    if (canSave) saveState('dismissed', [...dismissedItems])
+  }, [dismissedItems, canSave])
+
+  useEffect(() => {
+    localStorage.setItem('collapsedGroups', JSON.stringify([...collapsedGroups]))
+  }, [collapsedGroups])
 
   useEffect(() => {
-    localStorage.setItem('watchedVideos', JSON.stringify([...watchedVideos]))
-  }, [watchedVideos])
+    localStorage.setItem('feedSort', JSON.stringify(sortByLayout))
+  }, [sortByLayout])
 
-  // Cache videos to localStorage with timestamp
   useEffect(() => {
-    if (videos.length > 0) {
-      localStorage.setItem('cachedVideos', JSON.stringify({
-        videos,
-        timestamp: Date.now()
-      }))
+    localStorage.setItem('feedLayout', feedLayout)
+  }, [feedLayout])
+
+  useEffect(() => {
+    if (lastRefreshAt) localStorage.setItem('lastRefreshAt', String(lastRefreshAt))
+  }, [lastRefreshAt])
+
+  useEffect(() => {
+    if (canSave) saveState('videos', videos)
+  }, [videos, canSave])
+
+  // A shared /watch link can point at a video this browser has not fetched; look up
+  // its title (1 unit) so the player has something to show. Only YouTube ids can be looked up.
+  const isWatchVideoInFeed = watchVideoId ? videos.some(v => v.id === watchVideoId) : false
+  useEffect(() => {
+    if (!isHydrated || !watchVideoId || isWatchVideoInFeed || !apiKey || linkedVideo?.id === watchVideoId) return
+    if (!isYouTubeVideoId(watchVideoId)) return
+    let cancelled = false
+    youtube.videos({ id: [watchVideoId], part: 'snippet' })
+      .then(data => {
+        const title = data.items[0]?.snippet?.title
+        if (!cancelled && title) setLinkedVideo({ id: watchVideoId, title })
+      })
+      .catch(error => console.error('Error fetching linked video:', error))
+    return () => {
+      cancelled = true
     }
-  }, [videos])
+  }, [isHydrated, watchVideoId, isWatchVideoInFeed, apiKey, linkedVideo, youtube])
 
-  const toggleWatchedVideo = (videoId: string, event: React.MouseEvent) => {
-    event.stopPropagation()
-    setWatchedVideos(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(videoId)) {
-        newSet.delete(videoId)
-      } else {
-        newSet.add(videoId)
+  const toggleWatchedVideo = (videoId: string, event?: React.MouseEvent) => {
+    event?.stopPropagation()
+    const watched = !watchedVideos.has(videoId)
+    setWatchedVideos(prev => updateMembership(prev, [videoId], watched).next)
+    setWatchHistory(prev => updateWatchHistory(prev, [videoId], watched))
+  }
+
+  // Bulk changes show a toast that can put back exactly the ids they flipped
+  const setWatchedBulk = (ids: string[], watched: boolean) => {
+    const { changed } = updateMembership(watchedVideos, ids, watched)
+    if (changed.length === 0) {
+      toast(watched ? 'Already marked as watched' : 'Already marked as unwatched')
+      return
+    }
+    const previousHistory = Object.fromEntries(changed.filter(id => watchHistory[id]).map(id => [id, watchHistory[id]]))
+    setWatchedVideos(prev => updateMembership(prev, changed, watched).next)
+    setWatchHistory(prev => updateWatchHistory(prev, changed, watched))
+    toast(`${changed.length} ${changed.length === 1 ? 'item' : 'items'} marked as ${watched ? 'watched' : 'unwatched'}`, {
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          setWatchedVideos(prev => updateMembership(prev, changed, !watched).next)
+          setWatchHistory(prev => watched ? updateWatchHistory(prev, changed, false) : { ...prev, ...previousHistory })
+        }
       }
-      return newSet
     })
   }
 
+  const setDismissed = (ids: string[], dismiss: boolean) => {
+    const { changed } = updateMembership(dismissedItems, ids, dismiss)
+    if (changed.length === 0) return
+    setDismissedItems(prev => updateMembership(prev, changed, dismiss).next)
+    setSelectedIds(prev => updateMembership(prev, changed, false).next)
+    toast(`${changed.length} ${changed.length === 1 ? 'item' : 'items'} ${dismiss ? 'dismissed' : 'restored'}`, {
+      action: {
+        label: 'Undo',
+        onClick: () => setDismissedItems(prev => updateMembership(prev, changed, !dismiss).next)
+      }
+    })
+  }
+
+  const dismissItem = (videoId: string, event: React.MouseEvent) => {
+    event.stopPropagation()
+    setDismissed([videoId], !dismissedItems.has(videoId))
+  }
+
+  const toggleSelected = (videoId: string) => {
+    setSelectedIds(prev => updateMembership(prev, [videoId], !prev.has(videoId)).next)
+  }
+
+  const stopSelecting = () => {
+    setIsSelecting(false)
+    setSelectedIds(new Set())
+  }
+
   const handleApiKeyChange = (value: string) => {
     setApiKey(value)
     setApiKeyApplied(false)
@@ -176,153 +420,32 @@ function App() {
   }
 
   // Open settings and focus API key input when needed
-  const requestApiKey = () => {
+  const requestApiKey = useCallback(() => {
     setShowSettingsDropdown(true)
     // Focus the API key input after a small delay to ensure dropdown is rendered
     setTimeout(() => {
       apiKeyInputRef.current?.focus()
     }, 50)
-  }
-
-  const fetchChannelVideos = useCallback(async (channel: Channel) => {
-    if (!apiKey) {
-      requestApiKey()
-      return []
-    }
-
-    const channelVideos: (Video | CommunityPost)[] = []
-    const maxResults = fetchSettings.maxVideosPerChannel
-    const cutoffDate = new Date()
-    cutoffDate.setDate(cutoffDate.getDate() - fetchSettings.timeRangeDays)
-
-    // Use cached uploadsPlaylistId or fetch if missing
-    let uploadsPlaylistId = channel.uploadsPlaylistId
-    if (!uploadsPlaylistId) {
-      // One-time fetch if not cached (happens for legacy channels)
-      const channelResponse = await fetch(
-        `https://www.googleapis.com/youtube/v3/channels?part=contentDetails&id=${channel.id}&key=${apiKey}`
-      )
-      const channelData = await channelResponse.json()
-      uploadsPlaylistId = channelData.items?.[0]?.contentDetails?.relatedPlaylists?.uploads
-
-      // Cache it for future refreshes
-      if (uploadsPlaylistId) {
-        setChannels(prev => prev.map(c =>
-          c.id === channel.id ? { ...c, uploadsPlaylistId } : c
-        ))
-      }
-    }
-
-    if (uploadsPlaylistId && (channel.contentTypes.longForm || channel.contentTypes.shorts)) {
-      // Fetch from uploads playlist using playlistItems (1 unit - much cheaper than search!)
-      const playlistResponse = await fetch(
-        `https://www.googleapis.com/youtube/v3/playlistItems?part=snippet&playlistId=${uploadsPlaylistId}&maxResults=${maxResults * 2}&key=${apiKey}`
-      )
-      const playlistData = await playlistResponse.json()
-
-      if (playlistData.items && playlistData.items.length > 0) {
-        // Collect video IDs for batch duration check (up to 50 per request = 1 unit)
-        const videoIds = playlistData.items
-          .map((item: any) => item.snippet?.resourceId?.videoId)
-          .filter(Boolean)
-
-        // Batch fetch video durations (1 unit for up to 50 videos!)
-        let videoDurations: Record<string, string> = {}
-        if (videoIds.length > 0) {
-          const batchSize = 50
-          for (let i = 0; i < videoIds.length; i += batchSize) {
-            const batchIds = videoIds.slice(i, i + batchSize).join(',')
-            const videoResponse = await fetch(
-              `https://www.googleapis.com/youtube/v3/videos?part=contentDetails&id=${batchIds}&key=${apiKey}`
-            )
-            const videoData = await videoResponse.json()
-            if (videoData.items) {
-              for (const video of videoData.items) {
-                videoDurations[video.id] = video.contentDetails.duration
-              }
-            }
-          }
-        }
-
-        for (const item of playlistData.items) {
-          const snippet = item.snippet
-          const publishedAt = new Date(snippet.publishedAt)
-
-          // Filter by time range
-          if (fetchSettings.timeRangeDays !== 0 && publishedAt < cutoffDate) {
-            continue
-          }
-
-          const videoId = snippet.resourceId?.videoId
-          let duration = 'Video'
-          let type: 'longForm' | 'shorts' = 'longForm'
-
-          if (videoId) {
-            const durationStr = videoDurations[videoId]
-            if (durationStr) {
-              // Parse ISO 8601 duration (e.g., PT60S = 60 seconds = Short)
-              const match = durationStr.match(/PT(?:(\d+)M)?(?:(\d+)S)?/)
-              const minutes = parseInt(match?.[1] || '0')
-              const seconds = parseInt(match?.[2] || '0')
-              const totalSeconds = minutes * 60 + seconds
-
-              if (totalSeconds <= 60) {
-                duration = 'Short'
-                type = 'shorts'
-              }
-            }
-          }
+  }, [])
 
-          // Only add based on content type preference
-          if ((type === 'longForm' && channel.contentTypes.longForm) ||
-              (type === 'shorts' && channel.contentTypes.shorts)) {
-            channelVideos.push({
-              id: videoId || '',
-              title: snippet.title,
-              thumbnail: snippet.thumbnails?.medium?.url || '',
-              channelName: channel.name,
-              channelId: channel.id,
-              publishedAt: snippet.publishedAt,
-              viewCount: '',
-              duration: duration,
-              type: type
-            })
-          }
-        }
-      }
-    }
+  // Returns a message when spending `cost` units would break the daily budget and
+  // the user either has blocking enabled or declined the warning
+  // Background work passes interactive = false and is always blocked, since nobody is there to confirm
+  const checkQuotaBudget = useCallback((cost: number, action: string, interactive = true) => {
+    const remaining = fetchSettings.dailyQuotaBudget - quotaUsedToday
+    if (cost <= remaining) return null
 
-    if (channel.contentTypes.community) {
-      const communityResponse = await fetch(
-        `https://www.googleapis.com/youtube/v3/activities?part=snippet&channelId=${channel.id}&maxResults=${maxResults}&key=${apiKey}`
-      )
-      const communityData = await communityResponse.json()
-      if (communityData.items) {
-        for (const item of communityData.items) {
-          if (item.snippet.type === 'community') {
-            const itemDate = new Date(item.snippet.publishedAt)
-
-            if (fetchSettings.timeRangeDays === 0 || itemDate >= cutoffDate) {
-              channelVideos.push({
-                id: item.snippet.description?.substring(0, 50) || item.id,
-                content: item.snippet.description || 'Community post',
-                thumbnail: item.snippet.thumbnails?.medium?.url || '',
-                channelName: channel.name,
-                channelId: channel.id,
-                publishedAt: item.snippet.publishedAt,
-                type: 'community'
-              })
-            }
-          }
-        }
-      }
+    const message = `${action} needs about ${cost} units but only ${Math.max(remaining, 0)} of today's ${fetchSettings.dailyQuotaBudget} unit budget remain.`
+    if (fetchSettings.quotaBudgetMode === 'block' || !interactive) {
+      return message
     }
-
-    return channelVideos
-  }, [apiKey, fetchSettings, requestApiKey, setChannels])
+    return window.confirm(`${message}\n\nContinue anyway?`) ? null : message
+  }, [fetchSettings.dailyQuotaBudget, fetchSettings.quotaBudgetMode, quotaUsedToday])
 
   const searchChannels = async (query: string) => {
-    if (!query.trim()) {
+    setSearchError(null)
+    // Addresses are added through their source provider instead of searched for
+    if (!query.trim() || findProviderForInput(query)) {
       setSearchResults([])
       return
     }
@@ -330,42 +453,41 @@ function App() {
       requestApiKey()
       return
     }
+    const budgetError = checkQuotaBudget(QUOTA_COSTS.search, 'Searching channels')
+    if (budgetError) {
+      setSearchError(budgetError)
+      return
+    }
 
     setIsSearching(true)
     try {
-      const response = await fetch(
-        `https://www.googleapis.com/youtube/v3/search?part=snippet&q=${encodeURIComponent(query)}&type=channel&maxResults=10&key=${apiKey}`
-      )
-      const data = await response.json()
-      if (data.items) {
-        setSearchResults(data.items)
-      }
+      const data = await youtube.search({ q: query, type: 'channel', maxResults: 10 })
+      setSearchResults(data.items.filter(item => item.id.channelId))
     } catch (error) {
       console.error('Error searching channels:', error)
+      setSearchError(describeError(error))
     } finally {
       setIsSearching(false)
     }
   }
 
-  const addChannel = async (channel: any) => {
-    const channelId = channel.id.channelId
+  const addChannel = async (channel: SearchResultResource) => {
+    const channelId = channel.id.channelId || ''
 
     // Fetch uploads playlist ID now (costs 1 unit, but saves units on every refresh)
     let uploadsPlaylistId = ''
     try {
-      const response = await fetch(
-        `https://www.googleapis.com/youtube/v3/channels?part=contentDetails&id=${channelId}&key=${apiKey}`
-      )
-      const data = await response.json()
-      uploadsPlaylistId = data.items?.[0]?.contentDetails?.relatedPlaylists?.uploads || ''
+      const data = await youtube.channels({ id: channelId, part: 'contentDetails' })
+      uploadsPlaylistId = data.items[0]?.contentDetails?.relatedPlaylists?.uploads || ''
     } catch (error) {
       console.error('Error fetching channel details:', error)
+      setSearchError(describeError(error))
     }
 
     const newChannel: Channel = {
       id: channelId,
       name: channel.snippet.title,
-      thumbnail: getSnippetThumbnail(channel.snippet),
+      thumbnail: getThumbnailUrl(channel.snippet.thumbnails),
       uploadsPlaylistId,
       contentTypes: {
         longForm: true,
@@ -377,37 +499,144 @@ function App() {
     if (!alreadyAdded) {
       setChannels(prev => [...prev, newChannel])
       try {
-        const newVideos = await fetchChannelVideos(newChannel)
+        const { items: newVideos, updates } = await youtubeSource.fetchItems(newChannel, {
+          settings: fetchSettings,
+          knownVideoIds: new Set(),
+          youtube
+        })
+        applyChannelUpdates({ [newChannel.id]: updates })
         if (newVideos.length > 0) {
-          setVideos(prev => {
-            const nextMap = new Map(prev.map(item => [buildVideoKey(item), item]))
-            for (const item of newVideos) {
-              nextMap.set(buildVideoKey(item), item)
-            }
-            return Array.from(nextMap.values())
-              .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
-          })
+          setVideos(prev => mergeFeedItems(prev, newVideos))
         }
       } catch (error) {
         console.error(`Error fetching content for channel ${newChannel.name}:`, error)
+        setFeedErrors([`${newChannel.name}: ${describeError(error)}`])
       }
     }
     setSearchResults([])
     setSearchQuery('')
   }
 
+  // Adds a channel from an address: a YouTube @handle, channel or video link, a PeerTube channel or an RSS/Atom feed
+  const addChannelFromAddress = async (provider: SourceProvider, address: string) => {
+    setSearchError(null)
+    setIsSearching(true)
+    try {
+      const client = apiKey ? youtube : null
+      const channel = await provider.resolve(address, client)
+      if (!channels.some(c => c.id === channel.id)) {
+        setChannels(prev => [...prev, channel])
+        const { items, updates } = await provider.fetchItems(channel, { settings: fetchSettings, knownVideoIds: new Set(), youtube: client })
+        applyChannelUpdates({ [channel.id]: updates })
+        if (items.length > 0) {
+          setVideos(prev => mergeFeedItems(prev, items))
+        }
+      }
+      setSearchQuery('')
+    } catch (error) {
+      console.error(`Error adding ${provider.label} channel:`, error)
+      setSearchError(describeError(error))
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const addressProvider = findProviderForInput(searchQuery)
+
+  const lookupChannelsWithApi = async (ids: string[]) => {
+    const budgetError = checkQuotaBudget(
+      Math.ceil(ids.length / CHANNEL_LOOKUP_BATCH) * QUOTA_COSTS.channels,
+      `Importing ${ids.length} channels`
+    )
+    if (budgetError) {
+      throw new Error(budgetError)
+    }
+    return lookupChannels(youtube, ids)
+  }
+
+  const importChannels = async (ids: string[]) => {
+    // Without a key the channels' Atom feeds supply their names, at no quota cost
+    const { channels: found, missing } = apiKey ? await lookupChannelsWithApi(ids) : await lookupChannelsFromFeeds(ids)
+    const existingIds = new Set(channels.map(c => c.id))
+    const added = found.filter(c => !existingIds.has(c.id))
+    setChannels(prev => [...prev, ...added.filter(c => !prev.some(p => p.id === c.id))])
+
+    const notFound = missing.length > 0 ? ` ${missing.length} could not be found on YouTube.` : ''
+    return `Added ${added.length} channels.${notFound} Click Refresh to load their videos.`
+  }
+
+  const exportOpml = () => {
+    downloadTextFile('channel-feed-subscriptions.opml', buildOpml(channels), 'text/x-opml')
+  }
+
+  const exportBackup = () => {
+    const backup = createBackup({ channels, watchedVideos: [...watchedVideos], fetchSettings, groupOrder, filterRules })
+    downloadTextFile(`channel-feed-backup-${new Date().toISOString().slice(0, 10)}.json`, backup, 'application/json')
+  }
+
+  const restoreFromBackup = (backup: BackupFile, mode: RestoreMode) => {
+    const current = { channels, watchedVideos: [...watchedVideos], fetchSettings, groupOrder, filterRules }
+    const { data, report } = restoreBackup(current, backup, mode)
+    setChannels(data.channels)
+    // Replacing the channel list leaves the dropped channels' items behind
+    setVideos(prev => prev.filter(item => data.channels.some(c => c.id === item.channelId)))
+    setGroupOrder(data.groupOrder)
+    setFilterRules(data.filterRules)
+    setWatchedVideos(new Set(data.watchedVideos))
+    setFetchSettings({ ...DEFAULT_FETCH_SETTINGS, ...data.fetchSettings })
+    return report
+  }
+
+  const feedGroup = feedView.kind === 'group' ? feedView.group : null
+  const feedChannelId = feedView.kind === 'channel' ? feedView.channelId : null
+  const feedChannel = feedChannelId ? channels.find(c => c.id === feedChannelId) : undefined
+
+  // A selection and the keyboard focus only make sense in the view they were made in
+  const feedViewKey = feedViewPath(feedView)
+  useEffect(() => {
+    setSelectedIds(new Set())
+    setFocusedId(null)
+  }, [feedViewKey])
+
   const removeChannel = (channelId: string) => {
     setChannels(channels.filter(c => c.id !== channelId))
-    if (selectedChannel === channelId) {
-      setSelectedChannel(null)
+    setVideos(prev => prev.filter(item => item.channelId !== channelId))
+    if (feedChannelId === channelId) {
+      openView({ kind: 'all' })
     }
   }
 
+  const applyChannelUpdates = (updates: Record<string, Partial<Channel>>) => {
+    setChannels(prev => prev.map(c => updates[c.id] ? { ...c, ...updates[c.id] } : c))
+  }
+
+  // Forget every watermark so the next refresh refetches the full window
+  const resetWatermarks = () => {
+    setChannels(prev => prev.map(c => ({ ...c, lastSeenAt: undefined })))
+  }
+
+  // Reclassify the stored feed right away; durations are kept on each video
+  const updateShortsRule = (changes: Pick<FetchSettings, 'shortsMaxSeconds'>) => {
+    const rule = { ...fetchSettings, ...changes }
+    setFetchSettings(rule)
+    setVideos(prev => prev.map(item => isVideo(item) ? applyShortsRule(item, rule) : item))
+  }
+
+  const toggleChannelNotify = async (channelId: string, notify: boolean) => {
+    if (notify && !(await requestNotificationPermission())) {
+      toast('Notifications are blocked for this site. Allow them in the browser to get notified about new uploads.')
+      return
+    }
+    setChannels(prev => prev.map(c => c.id === channelId ? { ...c, notify } : c))
+  }
+
   const updateContentType = (channelId: string, contentType: ContentType, enabled: boolean) => {
     setChannels(channels.map(c => {
       if (c.id === channelId) {
         return {
           ...c,
+          // Newly enabled types need older items too, so start over with a full fetch
+          lastSeenAt: undefined,
           contentTypes: {
             ...c.contentTypes,
             [contentType]: enabled
@@ -418,6 +647,87 @@ function App() {
     }))
   }
 
+  const sidebarGroups = orderGroups(channels, groupOrder)
+
+  const updateChannelGroup = (channelId: string, group: string) => {
+    setChannels(prev => prev.map(c => c.id === channelId ? toggleChannelGroup(c, group) : c))
+  }
+
+  const addChannelToNewGroup = (channel: Channel) => {
+    const group = newGroupName.trim()
+    if (!group) return
+    if (!isInGroup(channel, group)) {
+      updateChannelGroup(channel.id, group)
+    }
+    setNewGroupName('')
+  }
+
+  const deleteGroup = (group: string) => {
+    if (!window.confirm(`Remove the group "${group}"? Its channels stay in your list.`)) return
+    setChannels(prev => removeGroup(prev, group))
+    setGroupOrder(prev => prev.filter(g => g !== group))
+    if (feedGroup === group) {
+      openView({ kind: 'all' })
+    }
+  }
+
+  const toggleGroupCollapsed = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const handleDragStart = (item: SidebarDragItem, event: React.DragEvent) => {
+    event.stopPropagation()
+    event.dataTransfer.effectAllowed = 'move'
+    dragItemRef.current = item
+  }
+
+  const handleDragOver = (key: string, event: React.DragEvent) => {
+    if (!dragItemRef.current) return
+    event.preventDefault()
+    event.stopPropagation()
+    setDragOverKey(key)
+  }
+
+  const handleDragEnd = () => {
+    dragItemRef.current = null
+    setDragOverKey(null)
+  }
+
+  // Dropping on a channel moves the dragged channel before it, into that channel's section
+  const handleChannelDrop = (group: string | null, beforeChannelId: string, event: React.DragEvent) => {
+    event.preventDefault()
+    event.stopPropagation()
+    const item = dragItemRef.current
+    if (item?.kind === 'channel') {
+      setChannels(prev => moveChannel(prev, item.channelId, item.group, group, beforeChannelId))
+    } else if (item?.kind === 'group' && group !== null) {
+      setGroupOrder(reorderGroups(sidebarGroups, item.group, group))
+    }
+    handleDragEnd()
+  }
+
+  // Dropping on a section header moves a channel to the end of it, or a group before it
+  const handleGroupDrop = (group: string | null, event: React.DragEvent) => {
+    event.preventDefault()
+    event.stopPropagation()
+    const item = dragItemRef.current
+    if (item?.kind === 'channel') {
+      setChannels(prev => moveChannel(prev, item.channelId, item.group, group))
+    } else if (item?.kind === 'group') {
+      // The ungrouped section always comes last, so dropping there moves a group to the end
+      setGroupOrder(reorderGroups(sidebarGroups, item.group, group ?? ''))
+    }
+    handleDragEnd()
+  }
+
   const getTimeRangeFilter = () => {
     if (fetchSettings.timeRangeDays === 0) return ''
     const date = new Date()
@@ -425,28 +735,119 @@ function App() {
     return `&publishedAfter=${date.toISOString()}`
   }
 
-  const fetchVideos = useCallback(async () => {
+  // A background refresh holds new items back behind the "N new" pill and may notify about them
+  const fetchVideos = useCallback(async ({ background = false } = {}) => {
     if (channels.length === 0) return
-    if (!apiKey) {
-      requestApiKey()
+    const source = fetchSettings.feedSource
+    const hasYouTubeChannels = channels.some(channel => sourceOf(channel) === 'youtube')
+    if (!apiKey && source !== 'atom' && hasYouTubeChannels) {
+      if (!background) requestApiKey()
       return
     }
+    setLastRefreshAt(Date.now())
+    const budgetError = checkQuotaBudget(
+      estimateRefreshCost(channels, fetchSettings.maxVideosPerChannel, source),
+      `Refreshing ${channels.length} channels`,
+      !background
+    )
+    if (budgetError) {
+      setFeedErrors([background ? `Auto-refresh skipped. ${budgetError}` : budgetError])
+      return
+    }
+    if (!background) setPendingIds(new Set())
+    const controller = new AbortController()
+    fetchControllerRef.current = controller
+    // A client per refresh so Stop can cancel every request it started
+    const client = createYouTubeClient(apiKey, { onRequest: recordUsage, signal: controller.signal })
+
     setIsLoadingVideos(true)
-    const allVideos: (Video | CommunityPost)[] = []
+    setFeedErrors([])
+    setFetchProgress({ done: 0, total: channels.length })
+    setChannelStatus(Object.fromEntries(channels.map(c => [c.id, { state: 'pending' }])))
+    const updateStatus = (channelId: string, status: ChannelFetchStatus) => {
+      setChannelStatus(prev => ({ ...prev, [channelId]: status }))
+    }
 
-    for (const channel of channels) {
+    const errors: string[] = []
+    let fatalError: string | null = null
+    const knownVideoIds = new Set(videos.map(item => item.id))
+    const channelsInFeed = new Set(videos.map(item => item.channelId))
+    const newItems: FeedItem[] = []
+
+    await runWithConcurrency(channels, fetchSettings.fetchConcurrency, async (channel) => {
+      updateStatus(channel.id, { state: 'loading' })
+      // A watermark is only useful while the channel's items are still in the feed
+      const fetchTarget = channelsInFeed.has(channel.id) ? channel : { ...channel, lastSeenAt: undefined }
       try {
-        const channelItems = await fetchChannelVideos(channel)
-        allVideos.push(...channelItems)
+        const { items, updates } = await providerFor(sourceOf(channel)).fetchItems(fetchTarget, {
+          settings: fetchSettings,
+          knownVideoIds,
+          youtube: apiKey ? client : null,
+          signal: controller.signal
+        })
+        // Stream each channel's items into the feed as soon as it finishes
+        applyChannelUpdates({ [channel.id]: updates })
+        if (items.length > 0) {
+          setVideos(prev => mergeFeedItems(prev, items))
+        }
+        // A channel's first fetch is its backlog, not new uploads
+        const fresh = channelsInFeed.has(channel.id) ? items.filter(item => !knownVideoIds.has(item.id)) : []
+        newItems.push(...fresh)
+        if (background && fresh.length > 0) {
+          setPendingIds(prev => new Set([...prev, ...fresh.map(item => item.id)]))
+        }
+        updateStatus(channel.id, { state: 'done', itemCount: items.length })
       } catch (error) {
+        // Other sources surface Stop as the browser's own AbortError
+        if ((error instanceof YouTubeApiError && error.code === 'aborted') || controller.signal.aborted) {
+          updateStatus(channel.id, { state: 'cancelled' })
+          return
+        }
         console.error(`Error fetching content for channel ${channel.name}:`, error)
+        updateStatus(channel.id, { state: 'error', error: describeError(error) })
+        if (error instanceof YouTubeApiError && error.isFatal) {
+          // Every remaining channel would fail the same way, so report it once and stop
+          fatalError = fatalError || describeError(error)
+          controller.abort()
+          return
+        }
+        errors.push(`${channel.name}: ${describeError(error)}`)
+      } finally {
+        setFetchProgress(prev => prev && { ...prev, done: prev.done + 1 })
       }
+    }, controller.signal)
+
+    // Channels that never started because of Stop or a fatal error
+    setChannelStatus(prev => Object.fromEntries(Object.entries(prev).map(([id, status]) =>
+      [id, status.state === 'pending' ? { state: 'cancelled' } : status]
+    )))
+    // Channels added or removed during the refresh count, not the list it started with
+    setVideos(prev => pruneFeedItems(prev, channelsRef.current, fetchSettings.maxVideosPerChannel * FEED_RETENTION_FACTOR, new Set(watchLater)))
+    setFeedErrors(fatalError ? [fatalError] : errors)
+    setFetchProgress(null)
+    setIsLoadingVideos(false)
+    fetchControllerRef.current = null
+    if (background) {
+      notifyNewUploads(newItems, channels, videoId => videoId ? openVideo(videoId) : setPendingIds(new Set()))
     }
+  }, [apiKey, channels, videos, watchLater, fetchSettings, recordUsage, requestApiKey, checkQuotaBudget, openVideo])
+
+  // Offline the feed is browsed from the cache; refreshing would only fail every channel
+  const isOnline = useOnlineStatus()
+  const autoRefresh = useCallback(() => fetchVideos({ background: true }), [fetchVideos])
+  useAutoRefresh(
+    fetchSettings.autoRefreshMinutes,
+    lastRefreshAt,
+    autoRefresh,
+    isHydrated && isOnline && !isLoadingVideos && channels.length > 0 && (!!apiKey || fetchSettings.feedSource === 'atom' || !channels.some(channel => sourceOf(channel) === 'youtube'))
+  )
 
-    allVideos.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
-    setVideos(allVideos)
-    setIsLoadingVideos(false)
-  }, [apiKey, channels, fetchChannelVideos, requestApiKey])
+  const stopFetching = () => {
+    fetchControllerRef.current?.abort()
+  }
+
+  // Cancel an in-flight refresh when the app unmounts
+  useEffect(() => () => fetchControllerRef.current?.abort(), [])
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
@@ -462,6 +863,11 @@ function App() {
     return date.toLocaleDateString()
   }
 
+  const formatQuotaReset = () => {
+    const totalMinutes = Math.ceil(msUntilQuotaReset() / (1000 * 60))
+    return `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`
+  }
+
   const getContentTypeIcon = (type: ContentType) => {
     switch (type) {
       case 'longForm': return <Film size={14} />
@@ -470,33 +876,523 @@ function App() {
     }
   }
 
-  const getVideosByChannel = () => {
+  const feedChannels = useMemo(() => feedGroup
+    ? channels.filter(c => isInGroup(c, feedGroup))
+    : feedChannelId ? channels.filter(c => c.id === feedChannelId) : channels,
+  [channels, feedGroup, feedChannelId])
+  const feedChannelsById = useMemo(() => new Map(feedChannels.map(c => [c.id, c])), [feedChannels])
+  const isDismissedView = feedView.kind === 'dismissed'
+  // Dismissed items only show up in the Hidden view
+  const feedItems = useMemo(() => videos.filter(v =>
+    feedChannelsById.has(v.channelId) && dismissedItems.has(v.id) === isDismissedView && !pendingIds.has(v.id)
+  ), [videos, feedChannelsById, dismissedItems, isDismissedView, pendingIds])
+  const pendingInView = isDismissedView
+    ? 0
+    : videos.filter(v => pendingIds.has(v.id) && feedChannelsById.has(v.channelId) && !dismissedItems.has(v.id)).length
+
+  const showPendingItems = () => {
+    setPendingIds(new Set())
+    feedSectionRef.current?.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+  // Rules run over every item as it enters the view, so rule changes also apply to the cached feed.
+  // The Hidden view skips them so every dismissed item can be restored.
+  const { visible: visibleItems, hidden: hiddenItems } = useMemo(() => isDismissedView
+    ? { visible: feedItems, hidden: [] }
+    : applyFilterRules(feedItems, filterRules, { watched: watchedVideos }),
+  [isDismissedView, feedItems, filterRules, watchedVideos])
+  const isSearchingFeed = !isEmptyQuery(parsedFeedQuery)
+  const shownItems = useMemo(() => isSearchingFeed
+    ? visibleItems.filter(item => matchesFeedQuery(item, parsedFeedQuery, watchedVideos))
+    : visibleItems,
+  [isSearchingFeed, visibleItems, parsedFeedQuery, watchedVideos])
+  const highlightTerms = parsedFeedQuery.terms
+
+  const updateFeedQuery = (query: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      if (query) {
+        next.set('q', query)
+      } else {
+        next.delete('q')
+      }
+      return next
+    }, { replace: true })
+  }
+
+  // Only the active layout is built; the cards and j/k both read from it
+  const channelSections = useMemo(() => {
     const grouped: { channel: Channel; videos: (Video | CommunityPost)[] }[] = []
-    for (const channel of channels) {
-      const channelVideos = videos.filter(v => v.channelId === channel.id)
+    if (feedLayout === 'timeline') return grouped
+    for (const channel of feedChannels) {
+      const channelVideos = sortFeedItems(shownItems.filter(v => v.channelId === channel.id), feedSort, { watched: watchedVideos })
       if (channelVideos.length > 0) {
         grouped.push({ channel, videos: channelVideos })
       }
     }
     return grouped
-  }
+  }, [feedLayout, feedChannels, shownItems, feedSort, watchedVideos])
+
+  const timelineSections = useMemo(() => feedLayout === 'timeline'
+    ? buildTimeline(sortFeedItems(shownItems, feedSort, { watched: watchedVideos }), feedSort)
+    : [],
+  [feedLayout, shownItems, feedSort, watchedVideos])
 
   const handleVideoClick = (video: Video | CommunityPost) => {
     if (video.type !== 'community') {
-      setPlayingVideo(video as Video)
+      const provider = providerFor(sourceOf(video))
+      if (!provider.embed(video)) {
+        const url = provider.watchUrl(video)
+        if (url) window.open(url, '_blank', 'noopener,noreferrer')
+        return
+      }
+      setPlaybackList(null)
+      openVideo(video.id)
       setIsPlayerExpanded(false)
     }
   }
 
+  const toggleWatchLater = (videoId: string, event: React.MouseEvent) => {
+    event.stopPropagation()
+    setWatchLater(prev => prev.includes(videoId) ? prev.filter(id => id !== videoId) : [...prev, videoId])
+  }
+
+  const playFromWatchLater = (videoId: string) => {
+    setPlaybackList(null)
+    openVideo(videoId)
+  }
+
+  // Plays the channel's unwatched videos in the order the feed shows them
+  const playChannelUnwatched = (channel: Channel) => {
+    const ids = sortFeedItems(visibleItems.filter(item => item.channelId === channel.id), feedSort, { watched: watchedVideos })
+      .filter(item => item.type !== 'community' && !watchedVideos.has(item.id))
+      .map(item => item.id)
+    if (ids.length === 0) return
+    setPlaybackList({ label: channel.name, ids })
+    openVideo(ids[0])
+  }
+
   const closePlayer = () => {
-    setPlayingVideo(null)
+    setPlaybackList(null)
+    closeVideo()
   }
 
+  const feedVideo = watchVideoId
+    ? videos.find((v): v is Video => isVideo(v) && v.id === watchVideoId)
+    : undefined
+  // An item from another source that has left the feed has nothing left to play,
+  // so its provider shows the unavailable notice instead of a YouTube embed
+  const missingVideo = (id: string): VideoRef & { title: string } => isYouTubeVideoId(id)
+    ? { id, title: 'YouTube video' }
+    : { id, title: 'This item is no longer in your feed', source: id.startsWith('peertube:') ? 'peertube' : 'rss' }
+  const playingVideo = watchVideoId
+    ? feedVideo ?? (linkedVideo?.id === watchVideoId ? linkedVideo : missingVideo(watchVideoId))
+    : null
+  const playingProvider = providerFor(playingVideo ? sourceOf(playingVideo) : 'youtube')
+
+  // Previous and next come from the one-off list when there is one, else from Watch Later.
+  // A video that isn't in the list is followed by the list's first item.
+  const upNextIds = playbackList?.ids ?? watchLater
+  const upNextIndex = watchVideoId ? upNextIds.indexOf(watchVideoId) : -1
+  const previousVideoId = upNextIndex > 0 ? upNextIds[upNextIndex - 1] : null
+  const nextVideoId = upNextIndex === -1 ? upNextIds[0] ?? null : upNextIds[upNextIndex + 1] ?? null
+  const videosById = new Map(videos.filter(isVideo).map(v => [v.id, v]))
+
+  const playNext = useCallback(() => {
+    if (nextVideoId) openVideo(nextVideoId)
+  }, [nextVideoId, openVideo])
+
+  const autoMarkWatchedPercent = fetchSettings.autoMarkWatchedPercent
+  const handlePlayerProgress = useCallback((videoId: string, position: number, duration: number) => {
+    setWatchProgress(prev => recordProgress(prev, videoId, position, duration))
+    // Only ever marks; unmarking stays a manual action
+    if (hasReachedThreshold(position, duration, autoMarkWatchedPercent)) {
+      setWatchedVideos(prev => prev.has(videoId) ? prev : new Set(prev).add(videoId))
+      setWatchHistory(prev => prev[videoId] ? prev : updateWatchHistory(prev, [videoId], true))
+    }
+  }, [autoMarkWatchedPercent])
+
   const togglePlayerExpand = () => {
     setIsPlayerExpanded(!isPlayerExpanded)
   }
 
-  const groupedVideos = getVideosByChannel()
+  const undismissedVideos = videos.filter(v => !dismissedItems.has(v.id))
+  const dismissedCount = videos.length - undismissedVideos.length
+  const watchStateByGroup = countWatchStateByGroup(channels, undismissedVideos, watchedVideos)
+
+  const markGroupWatched = (group: string | null, watched: boolean) => {
+    const groupChannelIds = new Set(channels.filter(c => isInGroup(c, group)).map(c => c.id))
+    setWatchedBulk(undismissedVideos.filter(v => groupChannelIds.has(v.channelId)).map(v => v.id), watched)
+  }
+  const sidebarSections: { group: string | null; channels: Channel[] }[] = [
+    ...sidebarGroups.map(group => ({ group, channels: channels.filter(c => isInGroup(c, group)) })),
+    { group: null, channels: channels.filter(c => isInGroup(c, null)) }
+  ]
+
+  // Cards in the order they are rendered, for j/k
+  const orderedFeedItems = useMemo(() => feedLayout === 'timeline'
+    ? timelineSections.flatMap(section => section.items)
+    : channelSections.flatMap(section => section.videos),
+  [feedLayout, timelineSections, channelSections])
+
+  const moveFocus = (step: number) => {
+    if (orderedFeedItems.length === 0) return
+    const index = orderedFeedItems.findIndex(item => item.id === focusedId)
+    const next = index === -1
+      ? (step > 0 ? 0 : orderedFeedItems.length - 1)
+      : Math.min(orderedFeedItems.length - 1, Math.max(0, index + step))
+    setFocusedId(orderedFeedItems[next].id)
+  }
+
+  useEffect(() => {
+    if (!focusedId) return
+    document.querySelector(`[data-item-id="${CSS.escape(focusedId)}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [focusedId])
+
+  const focusedItem = orderedFeedItems.find(item => item.id === focusedId)
+
+  useKeyboardShortcuts({
+    j: () => moveFocus(1),
+    k: () => moveFocus(-1),
+    Enter: focusedItem ? () => isSelecting ? toggleSelected(focusedItem.id) : handleVideoClick(focusedItem) : undefined,
+    w: focusedItem ? () => toggleWatchedVideo(focusedItem.id) : undefined,
+    '/': isAnalytics ? undefined : () => feedSearchRef.current?.focus(),
+    r: isLoadingVideos || !isOnline ? undefined : () => fetchVideos(),
+    Escape: playingVideo ? closePlayer : undefined,
+    'mod+k': () => setShowPalette(true),
+    '?': () => setShowShortcuts(true)
+  }, !showPalette && !showShortcuts && !showImport && !showRestore && !filterDialog)
+
+  const paletteActions: PaletteAction[] = [
+    ...(isLoadingVideos
+      ? [{ id: 'stop', label: 'Stop refreshing', icon: <Square size={16} />, run: stopFetching }]
+      : isOnline
+        ? [{ id: 'refresh', label: 'Refresh', icon: <Clock size={16} />, hint: 'r', run: () => fetchVideos() }]
+        : []),
+    { id: 'all', label: 'Show all channels', icon: <Users size={16} />, run: () => openView({ kind: 'all' }) },
+    { id: 'hidden', label: 'Show dismissed items', icon: <EyeOff size={16} />, run: () => openView({ kind: 'dismissed' }) },
+    { id: 'analytics', label: 'Open analytics', icon: <BarChart3 size={16} />, run: openAnalytics },
+    {
+      id: 'layout',
+      label: feedLayout === 'timeline' ? 'Group the feed by channel' : 'Show the feed as a timeline',
+      icon: feedLayout === 'timeline' ? <Users size={16} /> : <CalendarClock size={16} />,
+      run: () => setFeedLayout(feedLayout === 'timeline' ? 'grouped' : 'timeline')
+    },
+    { id: 'select', label: 'Select items for bulk actions', icon: <CheckSquare size={16} />, run: () => setIsSelecting(true) },
+    { id: 'rules', label: 'Filter rules', icon: <Filter size={16} />, run: () => setFilterDialog({ tab: 'rules' }) },
+    { id: 'import', label: 'Import subscriptions', icon: <Upload size={16} />, run: () => setShowImport(true) },
+    { id: 'opml', label: 'Export subscriptions as OPML', icon: <Download size={16} />, run: exportOpml },
+    { id: 'export', label: 'Export backup', icon: <Download size={16} />, run: exportBackup },
+    { id: 'restore', label: 'Restore backup', icon: <Upload size={16} />, run: () => setShowRestore(true) },
+    { id: 'shortcuts', label: 'Keyboard shortcuts', icon: <Keyboard size={16} />, hint: '?', run: () => setShowShortcuts(true) }
+  ]
+
+  const settingChoices: SettingChoice[] = [
+    { key: 'maxVideosPerChannel', label: 'Max videos per channel', options: MAX_VIDEOS_OPTIONS },
+    { key: 'timeRangeDays', label: 'Time range', options: TIME_RANGE_OPTIONS },
+    { key: 'shortsMaxSeconds', label: 'Shorts length', options: SHORTS_LENGTH_OPTIONS },
+    { key: 'feedSource', label: 'Feed source', options: FEED_SOURCE_OPTIONS },
+    { key: 'fetchConcurrency', label: 'Fetch in parallel', options: CONCURRENCY_OPTIONS },
+    { key: 'autoRefreshMinutes', label: 'Auto-refresh', options: AUTO_REFRESH_OPTIONS },
+    { key: 'autoMarkWatchedPercent', label: 'Mark watched while playing', options: AUTO_MARK_WATCHED_OPTIONS },
+    {
+      key: 'quotaBudgetMode',
+      label: 'When over budget',
+      options: [{ value: 'warn', label: 'Warn before continuing' }, { value: 'block', label: 'Block the request' }]
+    }
+  ]
+
+  const changeSetting = (key: keyof FetchSettings, value: FetchSettings[keyof FetchSettings]) => {
+    // The Shorts rule also reclassifies the cached feed
+    if (key === 'shortsMaxSeconds') {
+      updateShortsRule({ shortsMaxSeconds: value as number })
+    } else {
+      setFetchSettings(prev => ({ ...prev, [key]: value }))
+    }
+    // A wider window reaches back past the watermarks, so the next refresh starts over
+    if (key === 'maxVideosPerChannel' || key === 'timeRangeDays') {
+      resetWatermarks()
+    }
+  }
+
+  const renderFeedCard = (video: FeedItem, channel: Channel | undefined, showChannel: boolean) => (
+    <div
+      key={video.id}
+      data-item-id={video.id}
+      className={`video-card ${watchedVideos.has(video.id) ? 'watched' : ''} ${isSelecting ? 'selecting' : ''} ${selectedIds.has(video.id) ? 'selected' : ''} ${focusedId === video.id ? 'focused' : ''}`}
+      onClick={isSelecting ? () => toggleSelected(video.id) : undefined}
+    >
+      {isSelecting && (
+        <span className="select-check" aria-hidden="true">
+          {selectedIds.has(video.id) && <Check size={14} />}
+        </span>
+      )}
+      {!isVideo(video) ? (
+        <div className="community-card">
+          <div className="community-header">
+            <img
+              src={channel?.thumbnail}
+              alt={video.channelName}
+            />
+            <span>{video.channelName}</span>
+          </div>
+          <p className="community-content">
+            <HighlightedText text={video.content} terms={highlightTerms} />
+          </p>
+          {video.thumbnail && (
+            <img src={video.thumbnail} alt="Community post media" className="community-media" />
+          )}
+          <div className="video-footer">
+            <span className="timestamp">{formatDate(video.publishedAt)}</span>
+            <button
+              className="dismiss-btn"
+              onClick={(e) => dismissItem(video.id, e)}
+              title={isDismissedView ? 'Restore to the feed' : 'Dismiss without marking watched'}
+            >
+              {isDismissedView ? <Eye size={14} /> : <EyeOff size={14} />}
+            </button>
+            <button
+              className={`watched-toggle ${watchedVideos.has(video.id) ? 'watched' : ''}`}
+              onClick={(e) => toggleWatchedVideo(video.id, e)}
+              title={watchedVideos.has(video.id) ? 'Mark as unwatched' : 'Mark as watched'}
+            >
+              <Check size={14} />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div
+            className="video-clickable"
+            onClick={isSelecting ? undefined : () => handleVideoClick(video)}
+          >
+            <div className="thumbnail-wrapper">
+              <img src={video.thumbnail} alt={video.title} />
+              {video.duration && (
+                <span className="duration-badge">{video.duration}</span>
+              )}
+              {watchedVideos.has(video.id) && (
+                <div className="watched-badge">Watched</div>
+              )}
+              {!watchedVideos.has(video.id) && progressPercent(watchProgress[video.id]) > 0 && (
+                <div className="watch-progress-bar" title="Partly watched">
+                  <div style={{ width: `${progressPercent(watchProgress[video.id])}%` }} />
+                </div>
+              )}
+              <button
+                className={`queue-toggle ${watchLater.includes(video.id) ? 'queued' : ''}`}
+                onClick={(e) => toggleWatchLater(video.id, e)}
+                title={watchLater.includes(video.id) ? 'Remove from Watch Later' : 'Add to Watch Later'}
+              >
+                {watchLater.includes(video.id) ? <ListX size={16} /> : <ListPlus size={16} />}
+              </button>
+              <button
+                className="dismiss-toggle"
+                onClick={(e) => dismissItem(video.id, e)}
+                title={isDismissedView ? 'Restore to the feed' : 'Dismiss without marking watched'}
+              >
+                {isDismissedView ? <Eye size={16} /> : <EyeOff size={16} />}
+              </button>
+              <div className="play-overlay">
+                <Play size={40} />
+              </div>
+            </div>
+            <div className="video-info">
+              <span className="type-indicator">
+                {getContentTypeIcon(video.type)}
+                {video.type === 'shorts' ? 'Short' : 'Video'}
+                {video.category && ` · ${video.category}`}
+              </span>
+              <h3 className="video-title">
+                <HighlightedText text={video.title} terms={highlightTerms} />
+              </h3>
+              {showChannel && <span className="video-channel">{video.channelName}</span>}
+              <div className="video-stats">
+                <span className="timestamp">{formatDate(video.publishedAt)}</span>
+                {video.viewCount && (
+                  <span>{formatCount(video.viewCount)} views</span>
+                )}
+                {video.likeCount && (
+                  <span><ThumbsUp size={12} /> {formatCount(video.likeCount)}</span>
+                )}
+                {video.commentCount && (
+                  <span><MessageSquare size={12} /> {formatCount(video.commentCount)}</span>
+                )}
+              </div>
+              {video.description && (
+                <p className="video-description" title={video.description}>
+                  {video.description}
+                </p>
+              )}
+              {video.tags && video.tags.length > 0 && (
+                <div className="video-tags">
+                  {video.tags.slice(0, 3).map(tag => (
+                    <span key={tag} className="video-tag">#{tag}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <button
+            className={`watched-toggle corner-toggle ${watchedVideos.has(video.id) ? 'watched' : ''}`}
+            onClick={(e) => toggleWatchedVideo(video.id, e)}
+            title={watchedVideos.has(video.id) ? 'Mark as unwatched' : 'Mark as watched'}
+          >
+            {watchedVideos.has(video.id) ? <Check size={16} /> : <div className="empty-check" />}
+          </button>
+        </>
+      )}
+    </div>
+  )
+
+  const renderChannelItem = (channel: Channel, group: string | null) => {
+    const settingsKey = `${group ?? ''}/${channel.id}`
+    return (
+      <div
+        key={settingsKey}
+        className={`channel-item-wrapper ${dragOverKey === settingsKey ? 'drag-over' : ''}`}
+        onDragOver={(e) => handleDragOver(settingsKey, e)}
+        onDrop={(e) => handleChannelDrop(group, channel.id, e)}
+      >
+        <div
+          className={`channel-item ${feedChannelId === channel.id ? 'selected' : ''}`}
+          onClick={() => openView(feedChannelId === channel.id ? { kind: 'all' } : { kind: 'channel', channelId: channel.id })}
+          title={feedChannelId === channel.id ? 'Show all channels in the feed' : 'Show only this channel in the feed'}
+          draggable
+          onDragStart={(e) => handleDragStart({ kind: 'channel', channelId: channel.id, group }, e)}
+          onDragEnd={handleDragEnd}
+        >
+          <img src={channel.thumbnail} alt={channel.name} />
+          <div className="channel-info">
+            <span className="channel-name">
+              {channel.name}
+              {channelStatus[channel.id] && (
+                <ChannelStatusIcon status={channelStatus[channel.id]} />
+              )}
+            </span>
+            <div className="content-types">
+              {channel.contentTypes.longForm && <span className="type-badge video">Video</span>}
+              {channel.contentTypes.shorts && <span className="type-badge shorts">Shorts</span>}
+              {channel.contentTypes.community && <span className="type-badge community">Posts</span>}
+            </div>
+          </div>
+          <div className="channel-actions" onClick={(e) => e.stopPropagation()}>
+            <button
+              className={`action-btn settings-btn ${expandedSettings === settingsKey ? 'active' : ''}`}
+              onClick={() => {
+                setExpandedSettings(expandedSettings === settingsKey ? null : settingsKey)
+                setNewGroupName('')
+              }}
+              title="Channel settings"
+            >
+              <Settings size={16} />
+            </button>
+            <button
+              className="action-btn remove-btn"
+              onClick={() => removeChannel(channel.id)}
+              title="Remove channel"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        {/* Content Type and Group Settings Dropdown */}
+        {expandedSettings === settingsKey && (
+          <div className="settings-dropdown">
+            <div className="settings-dropdown-header">Content Types</div>
+            <label className="settings-option">
+              <input
+                type="checkbox"
+                checked={channel.contentTypes.longForm}
+                onChange={(e) => updateContentType(channel.id, 'longForm', e.target.checked)}
+              />
+              <Film size={16} />
+              <span>Long Videos</span>
+            </label>
+            <label className="settings-option">
+              <input
+                type="checkbox"
+                checked={channel.contentTypes.shorts}
+                onChange={(e) => updateContentType(channel.id, 'shorts', e.target.checked)}
+              />
+              <Play size={16} />
+              <span>Shorts</span>
+            </label>
+            <label className="settings-option">
+              <input
+                type="checkbox"
+                checked={channel.contentTypes.community}
+                onChange={(e) => updateContentType(channel.id, 'community', e.target.checked)}
+              />
+              <MessageSquare size={16} />
+              <span>Community Posts</span>
+            </label>
+            {notificationsSupported() && (
+              <label className="settings-option">
+                <input
+                  type="checkbox"
+                  checked={!!channel.notify}
+                  onChange={(e) => toggleChannelNotify(channel.id, e.target.checked)}
+                />
+                <Bell size={16} />
+                <span>Notify about new uploads</span>
+              </label>
+            )}
+            <div className="settings-dropdown-header">Groups</div>
+            {sidebarGroups.map(name => (
+              <label key={name} className="settings-option">
+                <input
+                  type="checkbox"
+                  checked={isInGroup(channel, name)}
+                  onChange={() => updateChannelGroup(channel.id, name)}
+                />
+                <Tag size={16} />
+                <span>{name}</span>
+              </label>
+            ))}
+            <form
+              className="group-add-form"
+              onSubmit={(e) => {
+                e.preventDefault()
+                addChannelToNewGroup(channel)
+              }}
+            >
+              <input
+                type="text"
+                value={newGroupName}
+                onChange={(e) => setNewGroupName(e.target.value)}
+                placeholder="New group, e.g. Tech"
+                maxLength={40}
+              />
+              <button type="submit" className="action-btn" disabled={!newGroupName.trim()} title="Add to new group">
+                <Plus size={16} />
+              </button>
+            </form>
+            <button
+              className="settings-option settings-link"
+              onClick={() => {
+                playChannelUnwatched(channel)
+                setExpandedSettings(null)
+              }}
+            >
+              <ListVideo size={16} />
+              <span>Play all unwatched</span>
+            </button>
+            <button
+              className="settings-option settings-link"
+              onClick={() => {
+                setFilterDialog({ tab: 'rules', channelId: channel.id })
+                setExpandedSettings(null)
+              }}
+            >
+              <Filter size={16} />
+              <span>Filter rules for this channel...</span>
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
 
   return (
     <div className="app">
@@ -507,6 +1403,14 @@ function App() {
           <h1>Channel Feed</h1>
         </div>
         <div className="header-actions" ref={settingsRef}>
+          <Link
+            className={`howto-btn ${isAnalytics ? 'active' : ''}`}
+            to={isAnalytics ? feedViewPath({ kind: 'all' }) : ROUTES.analytics}
+            title={isAnalytics ? 'Back to the feed' : 'Charts of uploads and your watch history'}
+          >
+            <BarChart3 size={16} />
+            Analytics
+          </Link>
           <a className="howto-btn" href="/readme.html">
             How to use
           </a>
@@ -526,7 +1430,11 @@ function App() {
                 <div className="settings-section">
                   <label>YouTube Data API Key</label>
                   {!apiKey && (
-                    <p className="settings-warning">API key is required to search channels and fetch videos</p>
+                    <p className="settings-warning">
+                      {fetchSettings.feedSource === 'atom'
+                        ? 'API key is required to search channels and to add them by @handle or video link'
+                        : 'API key is required to search channels and fetch videos'}
+                    </p>
                   )}
                   <input
                     ref={apiKeyInputRef}
@@ -543,11 +1451,29 @@ function App() {
                   </p>
                 </div>
                 <div className="settings-divider"></div>
+                <div className="settings-section">
+                  <label>Feed source</label>
+                  <select
+                    value={fetchSettings.feedSource}
+                    onChange={(e) => setFetchSettings(prev => ({ ...prev, feedSource: e.target.value as FeedSource }))}
+                  >
+                    {FEED_SOURCE_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                  <p className="settings-help">
+                    {fetchSettings.feedSource === 'api'
+                      ? 'Every refresh spends API quota on each channel.'
+                      : 'Channel feeds list only the latest 15 uploads and need the app to run on the Vite dev or preview server.'}
+                    {fetchSettings.feedSource === 'atom' && ' Without the API there are no durations or community posts.'}
+                    {fetchSettings.feedSource === 'atomEnriched' && ' Adds durations and statistics for about 1 unit per channel.'}
+                  </p>
+                </div>
                 <div className="settings-section">
                   <label>Max videos per channel</label>
                   <select
                     value={fetchSettings.maxVideosPerChannel}
-                    onChange={(e) => setFetchSettings(prev => ({ ...prev, maxVideosPerChannel: parseInt(e.target.value) }))}
+                    onChange={(e) => changeSetting('maxVideosPerChannel', parseInt(e.target.value))}
                   >
                     {MAX_VIDEOS_OPTIONS.map(opt => (
                       <option key={opt.value} value={opt.value}>{opt.label}</option>
@@ -558,25 +1484,143 @@ function App() {
                   <label>Time range</label>
                   <select
                     value={fetchSettings.timeRangeDays}
-                    onChange={(e) => setFetchSettings(prev => ({ ...prev, timeRangeDays: parseInt(e.target.value) }))}
+                    onChange={(e) => changeSetting('timeRangeDays', parseInt(e.target.value))}
                   >
                     {TIME_RANGE_OPTIONS.map(opt => (
                       <option key={opt.value} value={opt.value}>{opt.label}</option>
                     ))}
                   </select>
                 </div>
+                <div className="settings-section">
+                  <label>Shorts</label>
+                  <select
+                    value={fetchSettings.shortsMaxSeconds}
+                    onChange={(e) => updateShortsRule({ shortsMaxSeconds: parseInt(e.target.value) })}
+                  >
+                    {SHORTS_LENGTH_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                  <p className="settings-help">Shorts can now run up to 3 minutes, but that limit also catches ordinary short videos.</p>
+                </div>
+                <div className="settings-section">
+                  <label>Fetch in parallel</label>
+                  <select
+                    value={fetchSettings.fetchConcurrency}
+                    onChange={(e) => setFetchSettings(prev => ({ ...prev, fetchConcurrency: parseInt(e.target.value) }))}
+                  >
+                    {CONCURRENCY_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="settings-section">
+                  <label>Auto-refresh</label>
+                  <select
+                    value={fetchSettings.autoRefreshMinutes}
+                    onChange={(e) => setFetchSettings(prev => ({ ...prev, autoRefreshMinutes: parseInt(e.target.value) }))}
+                  >
+                    {AUTO_REFRESH_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                  <p className="settings-help">
+                    Runs while this tab is visible and skips refreshes that would go over the daily budget.
+                    New items wait behind a "new" button; turn on notifications per channel.
+                  </p>
+                </div>
+                <div className="settings-section">
+                  <label>Mark watched while playing</label>
+                  <select
+                    value={fetchSettings.autoMarkWatchedPercent}
+                    onChange={(e) => setFetchSettings(prev => ({ ...prev, autoMarkWatchedPercent: parseInt(e.target.value) }))}
+                  >
+                    {AUTO_MARK_WATCHED_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="settings-divider"></div>
+                <div className="settings-section">
+                  <label>Backup</label>
+                  <div className="settings-button-row">
+                    <button className="settings-secondary-btn" onClick={exportBackup}>
+                      <Download size={14} />
+                      Export
+                    </button>
+                    <button
+                      className="settings-secondary-btn"
+                      onClick={() => {
+                        setShowRestore(true)
+                        setShowSettingsDropdown(false)
+                      }}
+                    >
+                      <Upload size={14} />
+                      Restore
+                    </button>
+                  </div>
+                  <p className="settings-help">Channels, watched videos and settings as a JSON file. The API key is not included.</p>
+                </div>
+                <div className="settings-divider"></div>
+                <div className="settings-section">
+                  <label>API quota today</label>
+                  <div className="quota-meter">
+                    <div
+                      className={`quota-meter-fill ${quotaUsedToday >= fetchSettings.dailyQuotaBudget ? 'over' : quotaUsedToday >= fetchSettings.dailyQuotaBudget * 0.8 ? 'high' : ''}`}
+                      style={{ width: `${Math.min(100, (quotaUsedToday / Math.max(fetchSettings.dailyQuotaBudget, 1)) * 100)}%` }}
+                    />
+                  </div>
+                  <p className="settings-help">
+                    {quotaUsedToday.toLocaleString()} / {fetchSettings.dailyQuotaBudget.toLocaleString()} units used
+                    {' · '}resets in {formatQuotaReset()}
+                  </p>
+                  {quotaUsedToday > 0 && (
+                    <p className="settings-help">
+                      Search {todayQuota.byEndpoint.search || 0}
+                      {' · '}Lists {quotaUsedToday - (todayQuota.byEndpoint.search || 0)}
+                    </p>
+                  )}
+                </div>
+                <div className="settings-section">
+                  <label>Daily quota budget</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={100}
+                    value={fetchSettings.dailyQuotaBudget}
+                    onChange={(e) => setFetchSettings(prev => ({ ...prev, dailyQuotaBudget: Math.max(1, parseInt(e.target.value) || 1) }))}
+                  />
+                </div>
+                <div className="settings-section">
+                  <label>When over budget</label>
+                  <select
+                    value={fetchSettings.quotaBudgetMode}
+                    onChange={(e) => setFetchSettings(prev => ({ ...prev, quotaBudgetMode: e.target.value as QuotaBudgetMode }))}
+                  >
+                    <option value="warn">Warn before continuing</option>
+                    <option value="block">Block the request</option>
+                  </select>
+                </div>
               </div>
             )}
           </div>
 
-          <button
-            className="refresh-btn"
-            onClick={fetchVideos}
-            disabled={isLoadingVideos}
-          >
-            <Clock size={18} className={isLoadingVideos ? 'spinning' : ''} />
-            {isLoadingVideos ? 'Loading...' : 'Refresh'}
-          </button>
+          {isLoadingVideos ? (
+            <button className="refresh-btn stop-btn" onClick={stopFetching} title="Stop refreshing">
+              <Square size={16} />
+              Stop
+            </button>
+          ) : isOnline ? (
+            <button className="refresh-btn" onClick={() => fetchVideos()}>
+              <Clock size={18} />
+              Refresh
+            </button>
+          ) : (
+            <span className="offline-badge" title="Showing the feed from the last refresh">
+              <WifiOff size={16} />
+              Offline
+            </span>
+          )}
         </div>
       </header>
 
@@ -600,15 +1644,33 @@ function App() {
                     searchChannels(e.target.value)
                   }, 500)
                 }}
-                placeholder="Search channels..."
+                placeholder="Search channels, or paste a @handle or link..."
               />
             </div>
+            {searchError && (
+              <p className="search-error" role="alert">{searchError}</p>
+            )}
+            {addressProvider && (
+              <div className="search-results">
+                <div className="search-result-item">
+                  {isSearching ? <Loader2 size={16} className="spinning" /> : <Link2 size={16} />}
+                  <span>Add {addressProvider.label} channel from this address</span>
+                  <button
+                    onClick={() => addChannelFromAddress(addressProvider, searchQuery)}
+                    disabled={isSearching}
+                    title="Add channel"
+                  >
+                    <Plus size={16} />
+                  </button>
+                </div>
+              </div>
+            )}
             {searchResults.length > 0 && (
               <div className="search-results">
                 {searchResults.map((result) => (
                   <div key={result.id.channelId} className="search-result-item">
                     <img
-                      src={getSnippetThumbnail(result.snippet)}
+                      src={getThumbnailUrl(result.snippet.thumbnails)}
                       alt={result.snippet.title}
                       loading="lazy"
                       referrerPolicy="no-referrer"
@@ -623,191 +1685,406 @@ function App() {
             )}
           </div>
 
+          <WatchLaterQueue
+            queue={watchLater}
+            videos={videosById}
+            playingId={watchVideoId}
+            onPlay={playFromWatchLater}
+            onRemove={(videoId) => setWatchLater(prev => prev.filter(id => id !== videoId))}
+            onReorder={setWatchLater}
+          />
+
           <div className="channels-section">
-            <h3>Your Channels ({channels.length})</h3>
+            <div className="section-header">
+              <h3>Your Channels ({channels.length})</h3>
+              <div className="section-actions">
+                <button className="action-btn" onClick={() => setShowImport(true)} title="Import subscriptions (Takeout CSV or OPML)">
+                  <Upload size={15} />
+                </button>
+                <button className="action-btn" onClick={exportOpml} disabled={channels.length === 0} title="Export channels as OPML">
+                  <Download size={15} />
+                </button>
+              </div>
+            </div>
             <div className="channels-list">
               {channels.length === 0 ? (
                 <p className="empty-message">No channels added yet. Search and add channels above.</p>
+              ) : sidebarGroups.length === 0 ? (
+                channels.map(channel => renderChannelItem(channel, null))
               ) : (
-                channels.map((channel) => (
-                  <div key={channel.id} className="channel-item-wrapper">
-                    <div
-                      className={`channel-item ${selectedChannel === channel.id ? 'selected' : ''}`}
-                    >
-                      <img src={channel.thumbnail} alt={channel.name} />
-                      <div className="channel-info">
-                        <span className="channel-name">{channel.name}</span>
-                        <div className="content-types">
-                          {channel.contentTypes.longForm && <span className="type-badge video">Video</span>}
-                          {channel.contentTypes.shorts && <span className="type-badge shorts">Shorts</span>}
-                          {channel.contentTypes.community && <span className="type-badge community">Posts</span>}
-                        </div>
-                      </div>
-                      <div className="channel-actions">
+                sidebarSections.map(({ group, channels: sectionChannels }) => {
+                  const key = group ?? ''
+                  const isCollapsed = collapsedGroups.has(key)
+                  const { watched = 0, unwatched = 0 } = watchStateByGroup[key] ?? {}
+                  if (group === null && sectionChannels.length === 0) return null
+                  return (
+                    <div key={key} className="channel-group-section">
+                      <div
+                        className={`group-header ${dragOverKey === `group:${key}` ? 'drag-over' : ''}`}
+                        draggable={group !== null}
+                        onDragStart={(e) => group !== null && handleDragStart({ kind: 'group', group }, e)}
+                        onDragOver={(e) => handleDragOver(`group:${key}`, e)}
+                        onDrop={(e) => handleGroupDrop(group, e)}
+                        onDragEnd={handleDragEnd}
+                      >
                         <button
-                          className={`action-btn settings-btn ${expandedSettings === channel.id ? 'active' : ''}`}
-                          onClick={() => setExpandedSettings(expandedSettings === channel.id ? null : channel.id)}
-                          title="Content settings"
+                          className="group-toggle"
+                          onClick={() => toggleGroupCollapsed(key)}
+                          aria-expanded={!isCollapsed}
+                          title={isCollapsed ? 'Expand' : 'Collapse'}
                         >
-                          <Settings size={16} />
-                        </button>
-                        <button
-                          className="action-btn remove-btn"
-                          onClick={() => removeChannel(channel.id)}
-                          title="Remove channel"
-                        >
-                          <X size={16} />
+                          <ChevronRight size={14} className={isCollapsed ? '' : 'rotated'} />
                         </button>
+                        {group === null ? (
+                          <span className="group-name">Ungrouped</span>
+                        ) : (
+                          <Link
+                            className={`group-name ${feedGroup === group ? 'active' : ''}`}
+                            to={feedViewPath(feedGroup === group ? { kind: 'all' } : { kind: 'group', group })}
+                            title={feedGroup === group ? 'Show all channels in the feed' : 'Show only this group in the feed'}
+                          >
+                            {group}
+                          </Link>
+                        )}
+                        <span className="group-channel-count">{sectionChannels.length}</span>
+                        {unwatched > 0 && (
+                          <span className="unwatched-count" title={`${unwatched} unwatched`}>{unwatched}</span>
+                        )}
+                        {unwatched > 0 && (
+                          <button className="action-btn" onClick={() => markGroupWatched(group, true)} title="Mark everything in this group as watched">
+                            <CheckCheck size={14} />
+                          </button>
+                        )}
+                        {watched > 0 && (
+                          <button className="action-btn" onClick={() => markGroupWatched(group, false)} title="Mark everything in this group as unwatched">
+                            <RotateCcw size={14} />
+                          </button>
+                        )}
+                        {group !== null && (
+                          <button className="action-btn remove-btn" onClick={() => deleteGroup(group)} title="Remove group">
+                            <X size={14} />
+                          </button>
+                        )}
                       </div>
+                      {!isCollapsed && (
+                        <div className="group-channels">
+                          {sectionChannels.map(channel => renderChannelItem(channel, group))}
+                        </div>
+                      )}
                     </div>
-
-                    {/* Content Type Settings Dropdown */}
-                    {expandedSettings === channel.id && (
-                      <div className="settings-dropdown">
-                        <div className="settings-dropdown-header">Content Types</div>
-                        <label className="settings-option">
-                          <input
-                            type="checkbox"
-                            checked={channel.contentTypes.longForm}
-                            onChange={(e) => updateContentType(channel.id, 'longForm', e.target.checked)}
-                          />
-                          <Film size={16} />
-                          <span>Long Videos</span>
-                        </label>
-                        <label className="settings-option">
-                          <input
-                            type="checkbox"
-                            checked={channel.contentTypes.shorts}
-                            onChange={(e) => updateContentType(channel.id, 'shorts', e.target.checked)}
-                          />
-                          <Play size={16} />
-                          <span>Shorts</span>
-                        </label>
-                        <label className="settings-option">
-                          <input
-                            type="checkbox"
-                            checked={channel.contentTypes.community}
-                            onChange={(e) => updateContentType(channel.id, 'community', e.target.checked)}
-                          />
-                          <MessageSquare size={16} />
-                          <span>Community Posts</span>
-                        </label>
-                      </div>
-                    )}
-                  </div>
-                ))
+                  )
+                })
               )}
             </div>
           </div>
         </aside>
 
-        {/* Main Feed */}
-        <section className="feed-section">
-          <div className="feed-header">
-            <h2>Your Feed</h2>
-            <span className="video-count">{videos.length} items</span>
-          </div>
-
-          {isLoadingVideos ? (
-            <div className="loading">
-              <div className="spinner"></div>
-              <p>Loading videos...</p>
+        {isAnalytics ? (
+          <AnalyticsDashboard
+            channels={channels}
+            videos={videos}
+            watched={watchedVideos}
+            watchHistory={watchHistory}
+            timeRangeDays={fetchSettings.timeRangeDays}
+          />
+        ) : (
+          /* Main Feed */
+          <section className="feed-section" ref={feedSectionRef}>
+            <div className="feed-header">
+              <h2>
+                Your Feed
+                {feedView.kind !== 'all' && (
+                  <span className="feed-view-filter">
+                    {isDismissedView ? <EyeOff size={14} /> : feedGroup ? <Tag size={14} /> : feedChannel && <img src={feedChannel.thumbnail} alt="" />}
+                    {isDismissedView ? 'Hidden' : feedGroup ?? feedChannel?.name ?? feedChannelId}
+                    <Link to={feedViewPath({ kind: 'all' })} title="Show all channels">
+                      <X size={14} />
+                    </Link>
+                  </span>
+                )}
+              </h2>
+              <div className="feed-header-controls">
+                <div className="feed-layout-toggle" role="group" aria-label="Feed layout">
+                  <button
+                    className={feedLayout === 'grouped' ? 'active' : ''}
+                    onClick={() => setFeedLayout('grouped')}
+                    title="Group by channel"
+                    aria-pressed={feedLayout === 'grouped'}
+                  >
+                    <Users size={16} />
+                  </button>
+                  <button
+                    className={feedLayout === 'timeline' ? 'active' : ''}
+                    onClick={() => setFeedLayout('timeline')}
+                    title="Timeline across all channels"
+                    aria-pressed={feedLayout === 'timeline'}
+                  >
+                    <CalendarClock size={16} />
+                  </button>
+                </div>
+                <select
+                  className="feed-sort-select"
+                  value={feedSort}
+                  onChange={(e) => setSortByLayout(prev => ({ ...prev, [feedLayout]: e.target.value as FeedSort }))}
+                  title="Sort videos"
+                >
+                  {/* Channel sections already group by channel */}
+                  {FEED_SORT_OPTIONS.filter(opt => feedLayout === 'timeline' || opt.value !== 'channel').map(opt => (
+                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                  ))}
+                </select>
+                {hiddenItems.length > 0 && (
+                  <button className="hidden-indicator" onClick={() => setFilterDialog({ tab: 'hidden' })} title="See what was hidden and why">
+                    {hiddenItems.length} hidden by rules
+                  </button>
+                )}
+                {!isDismissedView && dismissedCount > 0 && (
+                  <Link className="hidden-indicator" to={feedViewPath({ kind: 'dismissed' })} title="See and restore dismissed items">
+                    {dismissedCount} dismissed
+                  </Link>
+                )}
+                <button
+                  className={`action-btn ${filterRules.some(rule => rule.enabled) ? 'active' : ''}`}
+                  onClick={() => setFilterDialog({ tab: 'rules' })}
+                  title="Filter rules"
+                >
+                  <Filter size={16} />
+                </button>
+                <button
+                  className={`action-btn ${isSelecting ? 'active' : ''}`}
+                  onClick={() => isSelecting ? stopSelecting() : setIsSelecting(true)}
+                  title={isSelecting ? 'Stop selecting' : 'Select items for bulk actions'}
+                  aria-pressed={isSelecting}
+                >
+                  <CheckSquare size={16} />
+                </button>
+                <span className="video-count">
+                  {isSearchingFeed ? `${shownItems.length} of ${visibleItems.length} items` : `${visibleItems.length} items`}
+                </span>
+              </div>
             </div>
-          ) : videos.length === 0 ? (
-            <div className="empty-feed">
-              <Youtube size={48} />
-              <h3>No videos yet</h3>
-              <p>Add some channels and click "Refresh" to see their latest content.</p>
+
+            {isSelecting && (
+              <BulkActions
+                selectedCount={selectedIds.size}
+                shownCount={shownItems.length}
+                viewLabel={isDismissedView ? 'Hidden' : feedGroup ?? feedChannel?.name ?? 'this feed'}
+                isDismissedView={isDismissedView}
+                onSelectAll={() => setSelectedIds(new Set(shownItems.map(item => item.id)))}
+                onClearSelection={() => setSelectedIds(new Set())}
+                onMarkSelected={(watched) => setWatchedBulk([...selectedIds], watched)}
+                onDismissSelected={(dismiss) => setDismissed([...selectedIds], dismiss)}
+                onMarkBefore={(day, watched) => setWatchedBulk(publishedBefore(feedItems, day).map(item => item.id), watched)}
+                onClose={stopSelecting}
+              />
+            )}
+
+            <div className="feed-search">
+              <Search size={16} />
+              <input
+                type="search"
+                value={feedQuery}
+                ref={feedSearchRef}
+                onChange={(e) => updateFeedQuery(e.target.value)}
+                placeholder="Search this feed (try channel:name type:shorts is:unwatched after:2024-01-01 duration:>20m)"
+                aria-label="Search this feed"
+              />
+              {feedQuery && (
+                <button onClick={() => updateFeedQuery('')} title="Clear search">
+                  <X size={14} />
+                </button>
+              )}
             </div>
-          ) : (
-            <div className="channel-groups">
-              {groupedVideos.map(({ channel, videos: channelVideos }) => (
-                <div key={channel.id} className="channel-group">
-                  <div className="channel-group-header">
-                    <img src={channel.thumbnail} alt={channel.name} />
-                    <span>{channel.name}</span>
-                    <span className="video-count">({channelVideos.length} items)</span>
-                  </div>
-                  <div className="video-grid">
-                    {channelVideos.map((video) => (
-                      <div key={video.id} className={`video-card ${watchedVideos.has(video.id) ? 'watched' : ''}`}>
-                        {video.type === 'community' ? (
-                          <div className="community-card">
-                            <div className="community-header">
-                              <img
-                                src={channel.thumbnail}
-                                alt={video.channelName}
-                              />
-                              <span>{video.channelName}</span>
-                            </div>
-                            <p className="community-content">{(video as CommunityPost).content}</p>
-                            {(video as CommunityPost).thumbnail && (
-                              <img src={(video as CommunityPost).thumbnail} alt="Community post media" className="community-media" />
-                            )}
-                            <div className="video-footer">
-                              <span className="timestamp">{formatDate(video.publishedAt)}</span>
-                              <button
-                                className={`watched-toggle ${watchedVideos.has(video.id) ? 'watched' : ''}`}
-                                onClick={(e) => toggleWatchedVideo(video.id, e)}
-                                title={watchedVideos.has(video.id) ? 'Mark as unwatched' : 'Mark as watched'}
-                              >
-                                <Check size={14} />
-                              </button>
-                            </div>
-                          </div>
-                        ) : (
-                          <>
-                            <div
-                              className="video-clickable"
-                              onClick={() => handleVideoClick(video)}
-                            >
-                              <div className="thumbnail-wrapper">
-                                <img src={video.thumbnail} alt={video.title} />
-                                <span className="duration-badge">{video.duration}</span>
-                                {watchedVideos.has(video.id) && (
-                                  <div className="watched-badge">Watched</div>
-                                )}
-                                <div className="play-overlay">
-                                  <Play size={40} />
-                                </div>
-                              </div>
-                              <div className="video-info">
-                                <span className="type-indicator">
-                                  {getContentTypeIcon(video.type)}
-                                  {video.type === 'shorts' ? 'Short' : 'Video'}
-                                </span>
-                                <h3 className="video-title">{video.title}</h3>
-                                <span className="timestamp">{formatDate(video.publishedAt)}</span>
-                              </div>
-                            </div>
-                            <button
-                              className={`watched-toggle corner-toggle ${watchedVideos.has(video.id) ? 'watched' : ''}`}
-                              onClick={(e) => toggleWatchedVideo(video.id, e)}
-                              title={watchedVideos.has(video.id) ? 'Mark as unwatched' : 'Mark as watched'}
-                            >
-                              {watchedVideos.has(video.id) ? <Check size={16} /> : <div className="empty-check" />}
-                            </button>
-                          </>
-                        )}
+
+            {feedErrors.length > 0 && (
+              <div className="api-error-banner" role="alert">
+                <AlertTriangle size={18} />
+                <div className="api-error-messages">
+                  {feedErrors.map((message, index) => (
+                    <p key={index}>{message}</p>
+                  ))}
+                </div>
+                <button onClick={() => setFeedErrors([])} title="Dismiss">
+                  <X size={16} />
+                </button>
+              </div>
+            )}
+
+            {fetchProgress && (
+              <div className="fetch-progress">
+                <div className="fetch-progress-text">
+                  <Loader2 size={14} className="spinning" />
+                  <span>{fetchProgress.done}/{fetchProgress.total} channels</span>
+                </div>
+                <div className="fetch-progress-bar">
+                  <div
+                    className="fetch-progress-fill"
+                    style={{ width: `${(fetchProgress.done / Math.max(fetchProgress.total, 1)) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {pendingInView > 0 && (
+              <button className="new-items-pill" onClick={showPendingItems}>
+                <ArrowUp size={14} />
+                {pendingInView} new
+              </button>
+            )}
+
+            {!isHydrated || (isLoadingVideos && videos.length === 0) ? (
+              <div className="loading">
+                <div className="spinner"></div>
+                <p>Loading videos...</p>
+              </div>
+            ) : videos.length === 0 ? (
+              <div className="empty-feed">
+                <Youtube size={48} />
+                <h3>No videos yet</h3>
+                <p>Add some channels and click "Refresh" to see their latest content.</p>
+              </div>
+            ) : isDismissedView && feedItems.length === 0 ? (
+              <div className="empty-feed">
+                <EyeOff size={48} />
+                <h3>Nothing dismissed</h3>
+                <p>Items you dismiss leave the feed without being marked watched, and can be restored here.</p>
+              </div>
+            ) : feedItems.length === 0 && videos.some(v => feedChannelsById.has(v.channelId) && dismissedItems.has(v.id)) ? (
+              <div className="empty-feed">
+                <EyeOff size={48} />
+                <h3>Everything here is dismissed</h3>
+                <p>Restore items from the <Link to={feedViewPath({ kind: 'dismissed' })}>Hidden</Link> view.</p>
+              </div>
+            ) : feedView.kind !== 'all' && feedItems.length === 0 ? (
+              <div className="empty-feed">
+                <Tag size={48} />
+                {feedChannelId && !feedChannel ? (
+                  <>
+                    <h3>Channel not in your list</h3>
+                    <p>Add it from the search box to follow its videos here.</p>
+                  </>
+                ) : (
+                  <>
+                    <h3>Nothing in {feedGroup ?? feedChannel?.name} yet</h3>
+                    <p>Click "Refresh" to load the latest content.</p>
+                  </>
+                )}
+              </div>
+            ) : visibleItems.length === 0 ? (
+              <div className="empty-feed">
+                <Filter size={48} />
+                <h3>Everything here is hidden</h3>
+                <p>Your filter rules hide all {hiddenItems.length} items in this view.</p>
+              </div>
+            ) : shownItems.length === 0 ? (
+              <div className="empty-feed">
+                <Search size={48} />
+                <h3>No matches</h3>
+                <p>Nothing in this view matches "{feedQuery}".</p>
+              </div>
+            ) : feedLayout === 'timeline' ? (
+              <div className="timeline">
+                {timelineSections.map((section, index) => (
+                  <div key={`${index}-${section.label}`} className="timeline-section">
+                    {section.label && (
+                      <div className="timeline-separator">
+                        <span>{section.label}</span>
+                        <span className="video-count">{section.items.length} items</span>
                       </div>
-                    ))}
+                    )}
+                    <div className="video-grid">
+                      {section.items.map(video => renderFeedCard(video, feedChannelsById.get(video.channelId), true))}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </section>
+                ))}
+              </div>
+            ) : (
+              <div className="channel-groups">
+                {channelSections.map(({ channel, videos: channelVideos }) => (
+                  <div key={channel.id} className="channel-group">
+                    <div className="channel-group-header">
+                      <img src={channel.thumbnail} alt={channel.name} />
+                      <span>{channel.name}</span>
+                      <span className="video-count">({channelVideos.length} items)</span>
+                      {channelVideos.some(v => v.type !== 'community' && !watchedVideos.has(v.id)) && (
+                        <button className="play-channel-btn" onClick={() => playChannelUnwatched(channel)} title="Play all unwatched from this channel">
+                          <ListVideo size={14} />
+                          Play unwatched
+                        </button>
+                      )}
+                    </div>
+                    <div className="video-grid">
+                      {channelVideos.map(video => renderFeedCard(video, channel, false))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
       </main>
 
+      <Toaster theme="dark" position="bottom-left" />
+
+      <CommandPalette
+        open={showPalette}
+        onOpenChange={setShowPalette}
+        actions={paletteActions}
+        channels={channels}
+        groups={sidebarGroups}
+        fetchSettings={fetchSettings}
+        settings={settingChoices}
+        onOpenView={openView}
+        onSetContentType={updateContentType}
+        onChangeSetting={changeSetting}
+      />
+
+      {showShortcuts && <ShortcutsHelp onClose={() => setShowShortcuts(false)} />}
+
+      {showImport && (
+        <SubscriptionImport
+          existingChannelIds={new Set(channels.map(c => c.id))}
+          hasApiKey={!!apiKey}
+          onImport={importChannels}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {filterDialog && (
+        <FilterRules
+          channels={channels}
+          rules={filterRules}
+          hidden={hiddenItems}
+          initialTab={filterDialog.tab}
+          initialChannelId={filterDialog.channelId}
+          onChange={setFilterRules}
+          onClose={() => setFilterDialog(null)}
+        />
+      )}
+
+      {showRestore && (
+        <BackupRestore onRestore={restoreFromBackup} onClose={() => setShowRestore(false)} />
+      )}
+
       {/* Embedded Video Player Modal */}
       {playingVideo && (
         <div className={`player-modal ${isPlayerExpanded ? 'expanded' : ''}`}>
           <div className="player-header">
             <div className="player-title">
-              <span className="now-playing">Now Playing</span>
+              <span className="now-playing">
+                {upNextIndex === -1
+                  ? 'Now Playing'
+                  : `${playbackList?.label ?? 'Watch Later'} · ${upNextIndex + 1} of ${upNextIds.length}`}
+              </span>
               <h3>{playingVideo.title}</h3>
             </div>
             <div className="player-controls">
+              <button onClick={() => previousVideoId && openVideo(previousVideoId)} disabled={!previousVideoId} title="Previous">
+                <SkipBack size={18} />
+              </button>
+              <button onClick={playNext} disabled={!nextVideoId} title="Next">
+                <SkipForward size={18} />
+              </button>
               <button onClick={togglePlayerExpand} title={isPlayerExpanded ? 'Minimize' : 'Expand'}>
                 {isPlayerExpanded ? <Minimize2 size={18} /> : <Maximize2 size={18} />}
               </button>
@@ -817,22 +2094,29 @@ function App() {
             </div>
           </div>
           <div className="player-content">
-            <iframe
-              src={`https://www.youtube.com/embed/${playingVideo.id}?autoplay=1`}
+            <VideoPlayer
+              videoId={playingVideo.id}
               title={playingVideo.title}
-              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-              allowFullScreen
-              className="youtube-embed"
+              embed={playingProvider.embed(playingVideo, resumePosition(watchProgress[playingVideo.id]))}
+              watchUrl={playingProvider.watchUrl(playingVideo)}
+              startSeconds={resumePosition(watchProgress[playingVideo.id])}
+              onEnded={playNext}
+              onProgress={handlePlayerProgress}
             />
           </div>
           <div className="player-info">
+            {nextVideoId && (
+              <span className="up-next" title={videosById.get(nextVideoId)?.title}>
+                Up next: {videosById.get(nextVideoId)?.title || 'Next video'}
+              </span>
+            )}
             <a
-              href={`https://www.youtube.com/watch?v=${playingVideo.id}`}
+              href={playingProvider.watchUrl(playingVideo)}
               target="_blank"
               rel="noopener noreferrer"
               className="open-youtube-btn"
             >
-              Open in YouTube
+              {playingProvider.openLabel}
             </a>
           </div>
         </div>
@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { BarChart3, X } from 'lucide-react'
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import type { Channel, FeedItem } from '@/types'
+import { channelActivity, contentMixByWeek, isInactive, unwatchedBacklog, uploadFrequency, watchHistoryByDay } from '@/lib/analytics'
+import { feedViewPath } from '@/lib/routes'
+
+interface AnalyticsDashboardProps {
+  channels: Channel[]
+  videos: FeedItem[]
+  watched: Set<string>
+  // Video id -> when it was marked watched
+  watchHistory: Record<string, string>
+  // The fetch time range, to explain how far back the figures go; 0 is all time
+  timeRangeDays: number
+}
+
+// Channels shown in the per-channel bar charts
+const CHART_CHANNEL_LIMIT = 15
+
+const HISTORY_DAY_OPTIONS = [14, 30, 90]
+
+const INACTIVE_MONTH_OPTIONS = [1, 3, 6, 12]
+
+// Recharts draws SVG, so colours come from the theme variables through inline attributes
+const AXIS_PROPS = { stroke: 'var(--text-muted)', fontSize: 12, tickLine: false }
+const TOOLTIP_PROPS = {
+  contentStyle: { background: 'var(--bg-secondary)', border: '1px solid var(--border)', borderRadius: 4 },
+  labelStyle: { color: 'var(--text-primary)' },
+  cursor: { fill: 'var(--bg-hover)' }
+}
+
+const shortDate = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+export function AnalyticsDashboard({ channels, videos, watched, watchHistory, timeRangeDays }: AnalyticsDashboardProps) {
+  const [historyDays, setHistoryDays] = useState(30)
+  const [inactiveMonths, setInactiveMonths] = useState(3)
+
+  const frequency = useMemo(() => uploadFrequency(channels, videos), [channels, videos])
+  const contentMix = useMemo(() => contentMixByWeek(videos), [videos])
+  const backlog = useMemo(() => unwatchedBacklog(channels, videos, watched), [channels, videos, watched])
+  const history = useMemo(() => watchHistoryByDay(watchHistory, watched, historyDays), [watchHistory, watched, historyDays])
+  const activity = useMemo(() => channelActivity(channels, videos), [channels, videos])
+
+  const inactive = activity.filter(entry => isInactive(entry, inactiveMonths))
+  const watchedInRange = history.reduce((total, day) => total + day.watched, 0)
+  const undatedWatched = [...watched].filter(id => !watchHistory[id]).length
+
+  return (
+    <section className="feed-section analytics">
+      <div className="feed-header">
+        <h2>
+          <BarChart3 size={20} />
+          Analytics
+        </h2>
+        <Link className="analytics-close" to={feedViewPath({ kind: 'all' })} title="Back to the feed">
+          <X size={16} />
+          Close
+        </Link>
+      </div>
+      <p className="analytics-note">
+        Based on the videos fetched at the last refresh
+        {timeRangeDays === 0 ? ', with no limit on their age.' : `, going back up to ${timeRangeDays} days per channel.`}
+      </p>
+
+      {videos.length === 0 ? (
+        <div className="empty-feed">
+          <BarChart3 size={48} />
+          <h3>Nothing to chart yet</h3>
+          <p>Refresh the feed to fetch videos from your channels.</p>
+        </div>
+      ) : (
+        <div className="analytics-grid">
+          <div className="analytics-card">
+            <h3>Uploads per week</h3>
+            <ResponsiveContainer width="100%" height={Math.max(160, Math.min(frequency.length, CHART_CHANNEL_LIMIT) * 28)}>
+              <BarChart data={frequency.slice(0, CHART_CHANNEL_LIMIT)} layout="vertical" margin={{ left: 8, right: 16 }}>
+                <XAxis type="number" {...AXIS_PROPS} allowDecimals />
+                <YAxis type="category" dataKey="name" width={140} {...AXIS_PROPS} />
+                <Tooltip {...TOOLTIP_PROPS} formatter={(value: number) => [value.toFixed(1), 'Per week']} />
+                <Bar dataKey="perWeek" fill="var(--accent)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="analytics-card">
+            <h3>Shorts vs long-form</h3>
+            <ResponsiveContainer width="100%" height={260}>
+              <AreaChart data={contentMix} margin={{ left: -16, right: 16 }}>
+                <CartesianGrid stroke="var(--border)" vertical={false} />
+                <XAxis dataKey="week" tickFormatter={shortDate} {...AXIS_PROPS} />
+                <YAxis allowDecimals={false} {...AXIS_PROPS} />
+                <Tooltip {...TOOLTIP_PROPS} labelFormatter={(week: string) => `Week of ${shortDate(week)}`} />
+                <Legend />
+                <Area type="monotone" dataKey="longForm" name="Long-form" stackId="mix" stroke="var(--accent)" fill="var(--accent)" fillOpacity={0.4} />
+                <Area type="monotone" dataKey="shorts" name="Shorts" stackId="mix" stroke="var(--danger)" fill="var(--danger)" fillOpacity={0.4} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="analytics-card">
+            <h3>Unwatched backlog</h3>
+            {backlog.length === 0 ? (
+              <p className="empty-message">You're all caught up.</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={Math.max(160, Math.min(backlog.length, CHART_CHANNEL_LIMIT) * 28)}>
+                <BarChart data={backlog.slice(0, CHART_CHANNEL_LIMIT)} layout="vertical" margin={{ left: 8, right: 16 }}>
+                  <XAxis type="number" allowDecimals={false} {...AXIS_PROPS} />
+                  <YAxis type="category" dataKey="name" width={140} {...AXIS_PROPS} />
+                  <Tooltip {...TOOLTIP_PROPS} />
+                  <Bar dataKey="unwatched" name="Unwatched" fill="var(--accent)" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          <div className="analytics-card">
+            <div className="analytics-card-header">
+              <h3>Watched per day</h3>
+              <select value={historyDays} onChange={(e) => setHistoryDays(parseInt(e.target.value))}>
+                {HISTORY_DAY_OPTIONS.map(days => (
+                  <option key={days} value={days}>Last {days} days</option>
+                ))}
+              </select>
+            </div>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={history} margin={{ left: -16, right: 16 }}>
+                <CartesianGrid stroke="var(--border)" vertical={false} />
+                <XAxis dataKey="day" tickFormatter={shortDate} {...AXIS_PROPS} />
+                <YAxis allowDecimals={false} {...AXIS_PROPS} />
+                <Tooltip {...TOOLTIP_PROPS} labelFormatter={shortDate} />
+                <Bar dataKey="watched" name="Watched" fill="var(--success)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+            <p className="settings-help">
+              {watchedInRange} watched in this period
+              {undatedWatched > 0 && ` · ${undatedWatched} marked before history was kept are not shown`}
+            </p>
+          </div>
+
+          <div className="analytics-card wide">
+            <div className="analytics-card-header">
+              <h3>Channel activity</h3>
+              <label>
+                Flag channels quiet for
+                <select value={inactiveMonths} onChange={(e) => setInactiveMonths(parseInt(e.target.value))}>
+                  {INACTIVE_MONTH_OPTIONS.map(months => (
+                    <option key={months} value={months}>{months} {months === 1 ? 'month' : 'months'}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="settings-help">
+              {inactive.length} of {channels.length} channels have no fetched uploads in that time.
+              {timeRangeDays > 0 && inactiveMonths * 30 > timeRangeDays && ` Uploads older than ${timeRangeDays} days are not fetched, so a channel can show as Nothing fetched while still uploading within this period.`}
+            </p>
+            <table className="analytics-table">
+              <thead>
+                <tr>
+                  <th>Channel</th>
+                  <th>Fetched uploads</th>
+                  <th>Last upload</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activity.map(entry => (
+                  <tr key={entry.channelId} className={isInactive(entry, inactiveMonths) ? 'inactive' : ''}>
+                    <td>
+                      <Link to={feedViewPath({ kind: 'channel', channelId: entry.channelId })}>{entry.name}</Link>
+                    </td>
+                    <td>{entry.uploads}</td>
+                    <td>{entry.lastUpload ? new Date(entry.lastUpload).toLocaleDateString() : '—'}</td>
+                    <td>
+                      {isInactive(entry, inactiveMonths)
+                        ? entry.daysSinceUpload === null ? 'Nothing fetched' : 'Inactive'
+                        : 'Active'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Upload, X } from 'lucide-react'
+import { BackupFile, parseBackup, RestoreMode, RestoreReport } from '@/lib/backup'
+import { describeError } from '@/lib/youtube'
+
+interface BackupRestoreProps {
+  onRestore: (backup: BackupFile, mode: RestoreMode) => RestoreReport
+  onClose: () => void
+}
+
+const describeReport = (report: RestoreReport) => {
+  const lines = [
+    `${report.channelsAdded} channels added`,
+    `${report.channelsUpdated} channels updated`,
+    `${report.watchedAdded} videos marked watched`
+  ]
+  if (report.channelsRemoved > 0) lines.push(`${report.channelsRemoved} channels removed`)
+  if (report.watchedRemoved > 0) lines.push(`${report.watchedRemoved} videos no longer marked watched`)
+  lines.push(report.settingsChanged ? 'Fetch settings restored' : 'Fetch settings unchanged')
+  return lines
+}
+
+export function BackupRestore({ onRestore, onClose }: BackupRestoreProps) {
+  const [backup, setBackup] = useState<BackupFile | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<RestoreReport | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    setReport(null)
+    try {
+      setBackup(parseBackup(await file.text()))
+    } catch (err) {
+      setBackup(null)
+      setError(describeError(err))
+    }
+  }
+
+  const restore = () => {
+    if (!backup) return
+    setReport(onRestore(backup, mode))
+    setBackup(null)
+  }
+
+  return (
+    <div className="dialog-backdrop" onMouseDown={onClose}>
+      <div className="dialog" role="dialog" aria-label="Restore backup" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <h3>Restore backup</h3>
+          <button className="action-btn" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-body">
+          <p className="dialog-help">Choose a backup file exported from Channel Feed.</p>
+          <label className="file-picker">
+            <Upload size={16} />
+            <span>Choose file</span>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+          </label>
+
+          {error && <p className="search-error" role="alert">{error}</p>}
+
+          {report && (
+            <div className="dialog-result">
+              <p>Backup restored:</p>
+              <ul className="restore-report">
+                {describeReport(report).map(line => <li key={line}>{line}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {backup && (
+            <>
+              <p className="dialog-result">
+                {backup.channels.length} channels and {backup.watchedVideos.length} watched videos
+                {backup.exportedAt && `, exported ${new Date(backup.exportedAt).toLocaleString()}`}
+              </p>
+              <div className="restore-modes">
+                <label className="settings-option">
+                  <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  <span>
+                    <strong>Merge</strong> - add missing channels, combine content types, groups, filter rules and watched videos, keep current settings
+                  </span>
+                </label>
+                <label className="settings-option">
+                  <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  <span>
+                    <strong>Replace</strong> - use exactly the channels, watched videos, filter rules and settings from the backup
+                  </span>
+                </label>
+              </div>
+            </>
+          )}
+        </div>
+
+        {backup && (
+          <div className="dialog-footer">
+            <span className="dialog-help">{mode === 'replace' ? 'Current channels not in the backup will be removed' : ''}</span>
+            <button className="apply-api-key-btn" onClick={restore}>Restore</button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { Check, Eye, EyeOff, X } from 'lucide-react'
+
+interface BulkActionsProps {
+  selectedCount: number
+  shownCount: number
+  // Name of the current view, for the date-based actions
+  viewLabel: string
+  // In the Hidden view dismissing becomes restoring
+  isDismissedView: boolean
+  onSelectAll: () => void
+  onClearSelection: () => void
+  onMarkSelected: (watched: boolean) => void
+  onDismissSelected: (dismiss: boolean) => void
+  onMarkBefore: (day: string, watched: boolean) => void
+  onClose: () => void
+}
+
+export function BulkActions({
+  selectedCount,
+  shownCount,
+  viewLabel,
+  isDismissedView,
+  onSelectAll,
+  onClearSelection,
+  onMarkSelected,
+  onDismissSelected,
+  onMarkBefore,
+  onClose
+}: BulkActionsProps) {
+  const [beforeDay, setBeforeDay] = useState('')
+  const hasSelection = selectedCount > 0
+
+  return (
+    <div className="bulk-actions" role="toolbar" aria-label="Bulk actions">
+      <div className="bulk-row">
+        <span className="bulk-count">{selectedCount} selected</span>
+        <button onClick={onSelectAll} disabled={selectedCount === shownCount}>
+          Select all {shownCount}
+        </button>
+        <button onClick={onClearSelection} disabled={!hasSelection}>
+          Clear
+        </button>
+        <span className="bulk-divider" />
+        <button onClick={() => onMarkSelected(true)} disabled={!hasSelection}>
+          <Check size={14} />
+          Watched
+        </button>
+        <button onClick={() => onMarkSelected(false)} disabled={!hasSelection}>
+          Unwatched
+        </button>
+        {isDismissedView ? (
+          <button onClick={() => onDismissSelected(false)} disabled={!hasSelection}>
+            <Eye size={14} />
+            Restore
+          </button>
+        ) : (
+          <button onClick={() => onDismissSelected(true)} disabled={!hasSelection}>
+            <EyeOff size={14} />
+            Dismiss
+          </button>
+        )}
+        <button className="bulk-close" onClick={onClose} title="Stop selecting">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="bulk-row">
+        <label>
+          Everything in {viewLabel} published before
+          <input type="date" value={beforeDay} onChange={(e) => setBeforeDay(e.target.value)} />
+        </label>
+        <button onClick={() => onMarkBefore(beforeDay, true)} disabled={!beforeDay}>
+          Mark watched
+        </button>
+        <button onClick={() => onMarkBefore(beforeDay, false)} disabled={!beforeDay}>
+          Mark unwatched
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { ReactNode, useState } from 'react'
+import { Command } from 'cmdk'
+import { Check, ChevronRight, Film, MessageSquare, Play, Settings, Tag } from 'lucide-react'
+import type { Channel, ContentType, FetchSettings } from '@/types'
+import type { FeedView } from '@/lib/routes'
+
+export interface PaletteAction {
+  id: string
+  label: string
+  icon?: ReactNode
+  // Shown next to the label, e.g. the keyboard shortcut
+  hint?: string
+  run: () => void
+}
+
+type SettingValue = FetchSettings[keyof FetchSettings]
+
+export interface SettingChoice {
+  key: keyof FetchSettings
+  label: string
+  options: { value: SettingValue; label: string }[]
+}
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  actions: PaletteAction[]
+  channels: Channel[]
+  groups: string[]
+  fetchSettings: FetchSettings
+  settings: SettingChoice[]
+  onOpenView: (view: FeedView) => void
+  onSetContentType: (channelId: string, contentType: ContentType, enabled: boolean) => void
+  onChangeSetting: (key: keyof FetchSettings, value: SettingValue) => void
+}
+
+// A channel or setting opens a page of its own; Backspace in an empty search goes back
+type Page = { kind: 'channel'; channelId: string } | { kind: 'setting'; key: keyof FetchSettings }
+
+const CONTENT_TYPES: { type: ContentType; label: string; icon: ReactNode }[] = [
+  { type: 'longForm', label: 'Long videos', icon: <Film size={16} /> },
+  { type: 'shorts', label: 'Shorts', icon: <Play size={16} /> },
+  { type: 'community', label: 'Community posts', icon: <MessageSquare size={16} /> }
+]
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  actions,
+  channels,
+  groups,
+  fetchSettings,
+  settings,
+  onOpenView,
+  onSetContentType,
+  onChangeSetting
+}: CommandPaletteProps) {
+  const [page, setPage] = useState<Page | null>(null)
+  const [search, setSearch] = useState('')
+
+  const openPage = (next: Page) => {
+    setPage(next)
+    setSearch('')
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setPage(null)
+      setSearch('')
+    }
+    onOpenChange(next)
+  }
+
+  const run = (action: () => void) => {
+    action()
+    handleOpenChange(false)
+  }
+
+  const pageChannel = page?.kind === 'channel' ? channels.find(c => c.id === page.channelId) : undefined
+  const pageSetting = page?.kind === 'setting' ? settings.find(s => s.key === page.key) : undefined
+
+  const placeholder = pageChannel
+    ? `${pageChannel.name}…`
+    : pageSetting
+      ? `${pageSetting.label}…`
+      : 'Type a command, channel or setting…'
+
+  return (
+    <Command.Dialog
+      open={open}
+      onOpenChange={handleOpenChange}
+      label="Command palette"
+      overlayClassName="palette-overlay"
+      contentClassName="palette"
+      onKeyDown={(e) => {
+        if (e.key === 'Backspace' && !search && page) {
+          e.preventDefault()
+          setPage(null)
+        }
+      }}
+    >
+      <Command.Input value={search} onValueChange={setSearch} placeholder={placeholder} />
+      <Command.List>
+        <Command.Empty>No results.</Command.Empty>
+
+        {pageChannel ? (
+          <Command.Group heading={pageChannel.name}>
+            <Command.Item onSelect={() => run(() => onOpenView({ kind: 'channel', channelId: pageChannel.id }))}>
+              <img src={pageChannel.thumbnail} alt="" />
+              Show in the feed
+            </Command.Item>
+            {CONTENT_TYPES.map(({ type, label, icon }) => {
+              const enabled = pageChannel.contentTypes[type]
+              return (
+                <Command.Item key={type} value={label} onSelect={() => onSetContentType(pageChannel.id, type, !enabled)}>
+                  {icon}
+                  {label}
+                  <span className="palette-hint">{enabled ? 'On' : 'Off'}</span>
+                </Command.Item>
+              )
+            })}
+          </Command.Group>
+        ) : pageSetting ? (
+          <Command.Group heading={pageSetting.label}>
+            {pageSetting.options.map(option => (
+              <Command.Item
+                key={String(option.value)}
+                value={option.label}
+                onSelect={() => run(() => onChangeSetting(pageSetting.key, option.value))}
+              >
+                {option.label}
+                {fetchSettings[pageSetting.key] === option.value && <Check size={14} className="palette-hint" />}
+              </Command.Item>
+            ))}
+          </Command.Group>
+        ) : (
+          <>
+            <Command.Group heading="Actions">
+              {actions.map(action => (
+                <Command.Item key={action.id} value={action.label} onSelect={() => run(action.run)}>
+                  {action.icon}
+                  {action.label}
+                  {action.hint && <kbd className="palette-hint">{action.hint}</kbd>}
+                </Command.Item>
+              ))}
+            </Command.Group>
+            {channels.length > 0 && (
+              <Command.Group heading="Channels">
+                {channels.map(channel => (
+                  <Command.Item
+                    key={channel.id}
+                    value={`channel ${channel.name} ${channel.id}`}
+                    onSelect={() => openPage({ kind: 'channel', channelId: channel.id })}
+                  >
+                    <img src={channel.thumbnail} alt="" />
+                    {channel.name}
+                    <ChevronRight size={14} className="palette-hint" />
+                  </Command.Item>
+                ))}
+              </Command.Group>
+            )}
+            {groups.length > 0 && (
+              <Command.Group heading="Groups">
+                {groups.map(group => (
+                  <Command.Item key={group} value={`group ${group}`} onSelect={() => run(() => onOpenView({ kind: 'group', group }))}>
+                    <Tag size={16} />
+                    {group}
+                  </Command.Item>
+                ))}
+              </Command.Group>
+            )}
+            <Command.Group heading="Settings">
+              {settings.map(setting => (
+                <Command.Item
+                  key={setting.key}
+                  value={`setting ${setting.label}`}
+                  onSelect={() => openPage({ kind: 'setting', key: setting.key })}
+                >
+                  <Settings size={16} />
+                  {setting.label}
+                  <span className="palette-hint">
+                    {setting.options.find(option => option.value === fetchSettings[setting.key])?.label}
+                  </span>
+                </Command.Item>
+              ))}
+            </Command.Group>
+          </>
+        )}
+      </Command.List>
+      {page && <div className="palette-footer">Backspace to go back · Esc to close</div>}
+    </Command.Dialog>
+  )
+}
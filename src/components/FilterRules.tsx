@@ -0,0 +1,203 @@
+import { useState } from 'react'
+import { Trash2, X } from 'lucide-react'
+import type { Channel, FilterRule } from '@/types'
+import { createRuleId, describeRule, HiddenItem, validateRegex } from '@/lib/filters'
+import { buildVideoKey, itemTitle } from '@/lib/feed'
+
+export type FilterRulesTab = 'rules' | 'hidden'
+
+interface FilterRulesProps {
+  channels: Channel[]
+  rules: FilterRule[]
+  hidden: HiddenItem[]
+  initialTab?: FilterRulesTab
+  // Preselects the scope of new rules
+  initialChannelId?: string
+  onChange: (rules: FilterRule[]) => void
+  onClose: () => void
+}
+
+type RuleKind = 'keyword' | 'regex' | 'minDuration' | 'maxDuration' | 'hideWatched' | 'olderThan'
+
+const RULE_KINDS: { value: RuleKind; label: string }[] = [
+  { value: 'keyword', label: 'Title keyword' },
+  { value: 'regex', label: 'Title regex' },
+  { value: 'minDuration', label: 'Minimum duration' },
+  { value: 'maxDuration', label: 'Maximum duration' },
+  { value: 'hideWatched', label: 'Hide watched' },
+  { value: 'olderThan', label: 'Hide older than' }
+]
+
+// Hidden items listed at most; the count still covers all of them
+const HIDDEN_LIST_LIMIT = 300
+
+export function FilterRules({ channels, rules, hidden, initialTab = 'rules', initialChannelId = '', onChange, onClose }: FilterRulesProps) {
+  const [tab, setTab] = useState<FilterRulesTab>(initialTab)
+  const [scope, setScope] = useState(initialChannelId)
+  const [kind, setKind] = useState<RuleKind>('keyword')
+  const [mode, setMode] = useState<'include' | 'exclude'>('exclude')
+  const [value, setValue] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const channelNames = new Map(channels.map(c => [c.id, c.name]))
+  const needsValue = kind !== 'hideWatched'
+
+  const buildRule = (): FilterRule | string => {
+    const base = { id: createRuleId(), channelId: scope || undefined, enabled: true }
+    const text = value.trim()
+    switch (kind) {
+      case 'keyword':
+      case 'regex': {
+        if (!text) return 'Enter a keyword or pattern.'
+        const regexError = kind === 'regex' ? validateRegex(text) : null
+        if (regexError) return regexError
+        return { ...base, type: 'title', mode, pattern: text, isRegex: kind === 'regex' }
+      }
+      case 'minDuration':
+      case 'maxDuration': {
+        const minutes = Number(text)
+        if (!text || !(minutes >= 0)) return 'Enter a duration in minutes.'
+        return { ...base, type: kind, seconds: Math.round(minutes * 60) }
+      }
+      case 'hideWatched':
+        return { ...base, type: 'hideWatched' }
+      case 'olderThan': {
+        const days = Number(text)
+        if (!Number.isInteger(days) || days < 1) return 'Enter a whole number of days.'
+        return { ...base, type: 'olderThan', days }
+      }
+    }
+  }
+
+  const addRule = (event: React.FormEvent) => {
+    event.preventDefault()
+    const rule = buildRule()
+    if (typeof rule === 'string') {
+      setError(rule)
+      return
+    }
+    setError(null)
+    setValue('')
+    onChange([...rules, rule])
+  }
+
+  const updateRule = (id: string, changes: Partial<FilterRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } as FilterRule : rule))
+  }
+
+  const scopeLabel = (rule: FilterRule) =>
+    rule.channelId ? channelNames.get(rule.channelId) || 'Removed channel' : 'All channels'
+
+  return (
+    <div className="dialog-backdrop" onMouseDown={onClose}>
+      <div className="dialog" role="dialog" aria-label="Filter rules" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <h3>Filter rules</h3>
+          <button className="action-btn" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-tabs" role="tablist">
+          <button role="tab" aria-selected={tab === 'rules'} className={tab === 'rules' ? 'active' : ''} onClick={() => setTab('rules')}>
+            Rules ({rules.length})
+          </button>
+          <button role="tab" aria-selected={tab === 'hidden'} className={tab === 'hidden' ? 'active' : ''} onClick={() => setTab('hidden')}>
+            Hidden items ({hidden.length})
+          </button>
+        </div>
+
+        <div className="dialog-body">
+          {tab === 'rules' ? (
+            <>
+              <form className="rule-form" onSubmit={addRule}>
+                <select value={scope} onChange={(e) => setScope(e.target.value)} title="Applies to">
+                  <option value="">All channels</option>
+                  {channels.map(channel => (
+                    <option key={channel.id} value={channel.id}>{channel.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={kind}
+                  onChange={(e) => {
+                    setKind(e.target.value as RuleKind)
+                    setError(null)
+                  }}
+                >
+                  {RULE_KINDS.map(opt => (
+                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                  ))}
+                </select>
+                {(kind === 'keyword' || kind === 'regex') && (
+                  <select value={mode} onChange={(e) => setMode(e.target.value as 'include' | 'exclude')}>
+                    <option value="exclude">Hide matches</option>
+                    <option value="include">Only show matches</option>
+                  </select>
+                )}
+                {needsValue && (
+                  <input
+                    type={kind === 'keyword' || kind === 'regex' ? 'text' : 'number'}
+                    min={0}
+                    step={kind === 'olderThan' ? 1 : 'any'}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder={
+                      kind === 'keyword' ? 'e.g. livestream'
+                        : kind === 'regex' ? 'e.g. ^#shorts|trailer'
+                        : kind === 'olderThan' ? 'Days'
+                        : 'Minutes'
+                    }
+                  />
+                )}
+                <button type="submit" className="apply-api-key-btn">Add rule</button>
+              </form>
+              {error && <p className="search-error" role="alert">{error}</p>}
+
+              {rules.length === 0 ? (
+                <p className="dialog-help">No rules yet. Rules apply to everything in the feed, including items already loaded.</p>
+              ) : (
+                <ul className="rule-list">
+                  {rules.map(rule => (
+                    <li key={rule.id} className={rule.enabled ? '' : 'disabled'}>
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                        title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                      />
+                      <div className="rule-text">
+                        <span>{rule.type === 'hideWatched' ? 'Hide watched items' : describeRule(rule)}</span>
+                        <span className="rule-scope">{scopeLabel(rule)}</span>
+                      </div>
+                      <button className="action-btn remove-btn" onClick={() => onChange(rules.filter(r => r.id !== rule.id))} title="Delete rule">
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          ) : hidden.length === 0 ? (
+            <p className="dialog-help">Nothing in this view is hidden by your rules.</p>
+          ) : (
+            <ul className="hidden-list">
+              {hidden.slice(0, HIDDEN_LIST_LIMIT).map(({ item, rule }) => (
+                <li key={buildVideoKey(item)}>
+                  <span className="hidden-title">
+                    {itemTitle(item)}
+                  </span>
+                  <span className="rule-scope">
+                    {item.channelName} · {describeRule(rule)}{rule.channelId ? ' (channel rule)' : ''}
+                  </span>
+                </li>
+              ))}
+              {hidden.length > HIDDEN_LIST_LIMIT && (
+                <li className="dialog-help">and {hidden.length - HIDDEN_LIST_LIMIT} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
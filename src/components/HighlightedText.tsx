@@ -0,0 +1,16 @@
+import { splitHighlights } from '@/lib/search'
+
+interface HighlightedTextProps {
+  text: string
+  terms: string[]
+}
+
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, index) =>
+        part.match ? <mark key={index} className="search-highlight">{part.text}</mark> : part.text
+      )}
+    </>
+  )
+}
@@ -0,0 +1,41 @@
+import { useEffect } from 'react'
+import { X } from 'lucide-react'
+import { SHORTCUTS, shortcutLabel } from '@/lib/shortcuts'
+
+interface ShortcutsHelpProps {
+  onClose: () => void
+}
+
+export function ShortcutsHelp({ onClose }: ShortcutsHelpProps) {
+  // Shortcuts are paused while this is open, so it handles its own keys
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' || event.key === '?') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div className="dialog-backdrop" onMouseDown={onClose}>
+      <div className="dialog" role="dialog" aria-label="Keyboard shortcuts" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <h3>Keyboard shortcuts</h3>
+          <button className="action-btn" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+        <div className="dialog-body">
+          <dl className="shortcut-list">
+            {SHORTCUTS.map(shortcut => (
+              <div key={shortcut.key}>
+                <dt><kbd>{shortcutLabel(shortcut)}</kbd></dt>
+                <dd>{shortcut.description}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { Upload, X } from 'lucide-react'
+import { ImportCandidate, parseSubscriptionFile } from '@/lib/subscriptions'
+import { CHANNEL_LOOKUP_BATCH } from '@/lib/channels'
+import { describeError } from '@/lib/youtube'
+
+interface SubscriptionImportProps {
+  existingChannelIds: Set<string>
+  // Without a key the channels are read from their Atom feeds, which cost no quota
+  hasApiKey: boolean
+  // Resolves the selected ids to channels; resolves to a summary for the user
+  onImport: (ids: string[]) => Promise<string>
+  onClose: () => void
+}
+
+export function SubscriptionImport({ existingChannelIds, hasApiKey, onImport, onClose }: SubscriptionImportProps) {
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    setResult(null)
+    try {
+      const parsed = parseSubscriptionFile(file.name, await file.text())
+      setCandidates(parsed)
+      // Preselect everything that isn't already in the list
+      setSelected(new Set(parsed.filter(c => !existingChannelIds.has(c.id)).map(c => c.id)))
+    } catch (err) {
+      setCandidates([])
+      setError(describeError(err))
+    }
+  }
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const importable = candidates.filter(c => !existingChannelIds.has(c.id))
+  const allSelected = importable.length > 0 && importable.every(c => selected.has(c.id))
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(importable.map(c => c.id)))
+  }
+
+  const runImport = async () => {
+    setIsImporting(true)
+    setError(null)
+    try {
+      const ids = candidates.map(c => c.id).filter(id => selected.has(id))
+      setResult(await onImport(ids))
+      setCandidates([])
+      setSelected(new Set())
+    } catch (err) {
+      setError(describeError(err))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const units = Math.ceil(selected.size / CHANNEL_LOOKUP_BATCH)
+
+  return (
+    <div className="dialog-backdrop" onMouseDown={onClose}>
+      <div className="dialog" role="dialog" aria-label="Import subscriptions" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <h3>Import subscriptions</h3>
+          <button className="action-btn" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-body">
+          <p className="dialog-help">
+            Choose <code>subscriptions.csv</code> from Google Takeout (YouTube and YouTube Music &gt; subscriptions)
+            or an OPML file of YouTube channel feeds.
+          </p>
+          <label className="file-picker">
+            <Upload size={16} />
+            <span>Choose file</span>
+            <input
+              type="file"
+              accept=".csv,.opml,.xml,text/csv,text/xml"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+          </label>
+
+          {error && <p className="search-error" role="alert">{error}</p>}
+          {result && <p className="dialog-result">{result}</p>}
+
+          {candidates.length > 0 && (
+            <>
+              <label className="settings-option import-select-all">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={importable.length === 0} />
+                <span>{selected.size} of {candidates.length} channels selected</span>
+              </label>
+              <div className="import-list">
+                {candidates.map(candidate => {
+                  const alreadyAdded = existingChannelIds.has(candidate.id)
+                  return (
+                    <label key={candidate.id} className={`settings-option ${alreadyAdded ? 'disabled' : ''}`}>
+                      <input
+                        type="checkbox"
+                        checked={selected.has(candidate.id)}
+                        disabled={alreadyAdded}
+                        onChange={() => toggle(candidate.id)}
+                      />
+                      <span>{candidate.title}</span>
+                      {alreadyAdded && <span className="import-note">Already added</span>}
+                    </label>
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        {candidates.length > 0 && (
+          <div className="dialog-footer">
+            <span className="dialog-help">
+              {hasApiKey ? `Costs ${units} API ${units === 1 ? 'unit' : 'units'}` : 'Read from channel feeds, no API units used'}
+            </span>
+            <button className="apply-api-key-btn" onClick={runImport} disabled={selected.size === 0 || isImporting}>
+              {isImporting ? 'Importing...' : `Import ${selected.size} channels`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
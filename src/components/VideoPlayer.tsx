@@ -0,0 +1,239 @@
+import { useEffect, useRef, useState } from 'react'
+import { ExternalLink, WifiOff } from 'lucide-react'
+import { useOnlineStatus } from '@/hooks/use-online-status'
+import { describePlayerError, loadYouTubeIframeApi, PLAYER_STATE, YouTubePlayer } from '@/lib/youtube-player'
+import type { PlayerEmbed } from '@/lib/sources'
+
+interface VideoPlayerProps {
+  videoId: string
+  title: string
+  // From the video's source provider; null when it only plays on its own site
+  embed: PlayerEmbed | null
+  // Link to the video on its own site, for embeds that can't be shown
+  watchUrl?: string
+  // Position to open the video at, read when a video is loaded
+  startSeconds?: number
+  onEnded?: () => void
+  // Reported every few seconds while playing, and on pause and end
+  onProgress?: (videoId: string, position: number, duration: number) => void
+}
+
+const PROGRESS_INTERVAL_MS = 5000
+
+const reportPosition = (player: YouTubePlayer, videoId: string, onProgress: VideoPlayerProps['onProgress']) => {
+  const duration = player.getDuration()
+  if (duration > 0) onProgress?.(videoId, player.getCurrentTime(), duration)
+}
+
+type PlayerProps = Omit<VideoPlayerProps, 'embed' | 'watchUrl'>
+
+// Offline, the embed would only show the browser's error page
+export function VideoPlayer({ embed, watchUrl, ...props }: VideoPlayerProps) {
+  const isOnline = useOnlineStatus()
+  if (!isOnline) {
+    return (
+      <div className="youtube-embed player-offline" role="status">
+        <WifiOff size={32} />
+        <p>You're offline.</p>
+        <p>{props.title} will start playing once you're back online.</p>
+      </div>
+    )
+  }
+  switch (embed?.kind) {
+    case 'youtube':
+      return <EmbeddedPlayer {...props} videoId={embed.videoId} />
+    case 'media':
+      return <MediaPlayer {...props} url={embed.url} />
+    case 'iframe':
+      // Other sites' players can't report progress or when a video ends
+      return (
+        <iframe
+          key={embed.url}
+          src={embed.url}
+          title={props.title}
+          allow="autoplay; encrypted-media; picture-in-picture"
+          allowFullScreen
+          className="youtube-embed"
+        />
+      )
+    default:
+      return (
+        <div className="youtube-embed player-unavailable" role="status">
+          <p>This video can only be played on its own site.</p>
+          {watchUrl && (
+            <a href={watchUrl} target="_blank" rel="noopener noreferrer">
+              <ExternalLink size={14} /> Open it there
+            </a>
+          )}
+        </div>
+      )
+  }
+}
+
+// Plays a media file (e.g. a podcast enclosure) in the browser's own player
+function MediaPlayer({ videoId, title, url, startSeconds = 0, onEnded, onProgress }: PlayerProps & { url: string }) {
+  const mediaRef = useRef<HTMLVideoElement>(null)
+  const lastReportRef = useRef(0)
+  const onProgressRef = useRef(onProgress)
+
+  useEffect(() => {
+    onProgressRef.current = onProgress
+  }, [onProgress])
+
+  const report = (media: HTMLVideoElement) => {
+    lastReportRef.current = Date.now()
+    if (media.duration > 0 && Number.isFinite(media.duration)) {
+      onProgressRef.current?.(videoId, media.currentTime, media.duration)
+    }
+  }
+
+  // Save the position when the player closes or moves on to another video
+  useEffect(() => {
+    const media = mediaRef.current
+    return () => {
+      if (media && media.duration > 0 && Number.isFinite(media.duration)) {
+        onProgressRef.current?.(videoId, media.currentTime, media.duration)
+      }
+    }
+  }, [videoId])
+
+  return (
+    <video
+      ref={mediaRef}
+      key={url}
+      src={url}
+      title={title}
+      className="youtube-embed"
+      controls
+      autoPlay
+      onLoadedMetadata={(e) => {
+        if (startSeconds) e.currentTarget.currentTime = startSeconds
+      }}
+      onTimeUpdate={(e) => {
+        if (Date.now() - lastReportRef.current >= PROGRESS_INTERVAL_MS) report(e.currentTarget)
+      }}
+      onPause={(e) => report(e.currentTarget)}
+      onEnded={(e) => {
+        report(e.currentTarget)
+        onEnded?.()
+      }}
+    />
+  )
+}
+
+/**
+ * Embeds one IFrame API player and reuses it when `videoId` changes, so queued
+ * videos play back to back. Falls back to a plain embed when the API script
+ * cannot be loaded (e.g. blocked by an extension); that embed can't report
+ * progress or when a video ends.
+ */
+function EmbeddedPlayer({ videoId, title, startSeconds = 0, onEnded, onProgress }: PlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const playerRef = useRef<YouTubePlayer | null>(null)
+  const videoIdRef = useRef(videoId)
+  const loadedVideoIdRef = useRef<string | null>(null)
+  const onEndedRef = useRef(onEnded)
+  const onProgressRef = useRef(onProgress)
+  const startSecondsRef = useRef(startSeconds)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [playerError, setPlayerError] = useState<string | null>(null)
+
+  useEffect(() => {
+    onEndedRef.current = onEnded
+  }, [onEnded])
+
+  useEffect(() => {
+    onProgressRef.current = onProgress
+  }, [onProgress])
+
+  useEffect(() => {
+    startSecondsRef.current = startSeconds
+  }, [startSeconds])
+
+  useEffect(() => {
+    let cancelled = false
+    let player: YouTubePlayer | null = null
+    let progressTimer: number | undefined
+    const reportProgress = () => {
+      if (player) reportPosition(player, loadedVideoIdRef.current, onProgressRef.current)
+    }
+
+    loadYouTubeIframeApi()
+      .then(api => {
+        if (cancelled || !containerRef.current) return
+        // The API replaces this element with its iframe, so React must not own it
+        const target = document.createElement('div')
+        containerRef.current.appendChild(target)
+        loadedVideoIdRef.current = videoIdRef.current
+        player = new api.Player(target, {
+          videoId: videoIdRef.current,
+          width: '100%',
+          height: '100%',
+          playerVars: { autoplay: 1, rel: 0, playsinline: 1, start: Math.floor(startSecondsRef.current) },
+          events: {
+            onReady: () => {
+              playerRef.current = player
+              // The video may have changed while the player was starting
+              if (loadedVideoIdRef.current !== videoIdRef.current) {
+                loadedVideoIdRef.current = videoIdRef.current
+                player.loadVideoById(videoIdRef.current, startSecondsRef.current)
+              }
+            },
+            onStateChange: (event) => {
+              window.clearInterval(progressTimer)
+              if (event.data === PLAYER_STATE.playing) {
+                progressTimer = window.setInterval(reportProgress, PROGRESS_INTERVAL_MS)
+              } else if (event.data === PLAYER_STATE.paused || event.data === PLAYER_STATE.ended) {
+                reportProgress()
+              }
+              if (event.data === PLAYER_STATE.ended) onEndedRef.current?.()
+            },
+            onError: (event) => setPlayerError(describePlayerError(event.data))
+          }
+        })
+      })
+      .catch(error => {
+        console.error('Error loading the YouTube player:', error)
+        if (!cancelled) setLoadFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+      window.clearInterval(progressTimer)
+      // Keep the last position when the player is closed mid-video
+      if (playerRef.current) reportProgress()
+      player?.destroy()
+      playerRef.current = null
+    }
+  }, [])
+
+  // Declared after the ref updates above so a new video picks up its own start position
+  useEffect(() => {
+    videoIdRef.current = videoId
+    setPlayerError(null)
+    if (playerRef.current && loadedVideoIdRef.current !== videoId) {
+      reportPosition(playerRef.current, loadedVideoIdRef.current, onProgressRef.current)
+      loadedVideoIdRef.current = videoId
+      playerRef.current.loadVideoById(videoId, startSecondsRef.current)
+    }
+  }, [videoId])
+
+  if (loadFailed) {
+    return (
+      <iframe
+        src={`https://www.youtube.com/embed/${videoId}?autoplay=1${startSeconds ? `&start=${Math.floor(startSeconds)}` : ''}`}
+        title={title}
+        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+        allowFullScreen
+        className="youtube-embed"
+      />
+    )
+  }
+
+  return (
+    <>
+      <div ref={containerRef} className="youtube-embed" title={title} />
+      {playerError && <div className="player-error" role="alert">{playerError}</div>}
+    </>
+  )
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { ChevronRight, Play, X } from 'lucide-react'
+import type { Video } from '@/types'
+
+interface WatchLaterQueueProps {
+  // Queued ids in play order; `videos` holds the ones still in the cached feed
+  queue: string[]
+  videos: Map<string, Video>
+  playingId: string | null
+  onPlay: (videoId: string) => void
+  onRemove: (videoId: string) => void
+  onReorder: (queue: string[]) => void
+}
+
+export function WatchLaterQueue({ queue, videos, playingId, onPlay, onRemove, onReorder }: WatchLaterQueueProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dragOverId, setDragOverId] = useState<string | null>(null)
+
+  const moveBefore = (videoId: string, beforeId: string) => {
+    if (videoId === beforeId) return
+    const rest = queue.filter(id => id !== videoId)
+    rest.splice(rest.indexOf(beforeId), 0, videoId)
+    onReorder(rest)
+  }
+
+  const endDrag = () => {
+    setDraggedId(null)
+    setDragOverId(null)
+  }
+
+  if (queue.length === 0) return null
+
+  return (
+    <div className="watch-later-section">
+      <div className="section-header">
+        <button className="group-toggle" onClick={() => setIsCollapsed(!isCollapsed)} aria-expanded={!isCollapsed}>
+          <ChevronRight size={14} className={isCollapsed ? '' : 'rotated'} />
+          <h3>Watch Later ({queue.length})</h3>
+        </button>
+        <div className="section-actions">
+          <button className="action-btn" onClick={() => onPlay(queue[0])} title="Play all">
+            <Play size={15} />
+          </button>
+        </div>
+      </div>
+      {!isCollapsed && (
+        <ol className="watch-later-list">
+          {queue.map(id => {
+            const video = videos.get(id)
+            return (
+              <li
+                key={id}
+                className={`${id === playingId ? 'playing' : ''} ${dragOverId === id ? 'drag-over' : ''}`}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move'
+                  setDraggedId(id)
+                }}
+                onDragOver={(e) => {
+                  if (!draggedId) return
+                  e.preventDefault()
+                  setDragOverId(id)
+                }}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  if (draggedId) moveBefore(draggedId, id)
+                  endDrag()
+                }}
+                onDragEnd={endDrag}
+              >
+                <button className="watch-later-item" onClick={() => onPlay(id)} title="Play">
+                  {video?.thumbnail && <img src={video.thumbnail} alt="" />}
+                  <span className="watch-later-text">
+                    <span className="watch-later-title">{video?.title || 'Video no longer in the feed'}</span>
+                    <span className="watch-later-meta">
+                      {video ? [video.channelName, video.duration].filter(Boolean).join(' · ') : id}
+                    </span>
+                  </span>
+                </button>
+                <button className="action-btn remove-btn" onClick={() => onRemove(id)} title="Remove from Watch Later">
+                  <X size={14} />
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
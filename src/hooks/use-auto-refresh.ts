@@ -0,0 +1,33 @@
+import { useEffect, useRef, useState } from 'react'
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Calls `onRefresh` once `intervalMinutes` have passed since `lastRefreshAt`.
+ * Nothing runs while the tab is hidden; a refresh that came due in the
+ * meantime runs as soon as the tab is shown again. The caller must move
+ * `lastRefreshAt` forward on every attempt, or the timer fires again at once.
+ */
+export function useAutoRefresh(intervalMinutes: number, lastRefreshAt: number | null, onRefresh: () => void, enabled = true) {
+  const onRefreshRef = useRef(onRefresh)
+  const [isVisible, setIsVisible] = useState(() => document.visibilityState === 'visible')
+
+  useEffect(() => {
+    onRefreshRef.current = onRefresh
+  }, [onRefresh])
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsVisible(document.visibilityState === 'visible')
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [])
+
+  const isActive = enabled && intervalMinutes > 0 && isVisible
+
+  useEffect(() => {
+    if (!isActive) return
+    const dueAt = (lastRefreshAt ?? 0) + intervalMinutes * MINUTE_MS
+    const timer = window.setTimeout(() => onRefreshRef.current(), Math.max(0, dueAt - Date.now()))
+    return () => window.clearTimeout(timer)
+  }, [isActive, intervalMinutes, lastRefreshAt])
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect } from 'react'
+import { Location, useLocation, useNavigate } from 'react-router-dom'
+import { FeedView, feedViewPath, isAnalyticsPath, matchFeedView, matchWatchVideoId, ROUTES, watchPath } from '@/lib/routes'
+
+interface WatchRouteState {
+  // The feed view the player was opened over
+  background?: Location
+}
+
+/**
+ * Reads the current feed view and playing video from the URL. The player route
+ * keeps the view it was opened from in history state, so the feed behind it stays
+ * put and closing the player is a step back; a shared /watch link opens the
+ * player over the full feed. The analytics page replaces the feed and reports
+ * the full feed as its view.
+ */
+export function useFeedRoute() {
+  const location = useLocation()
+  const navigate = useNavigate()
+
+  const videoId = matchWatchVideoId(location.pathname)
+  const background = videoId ? (location.state as WatchRouteState | null)?.background : undefined
+  const matchedView = matchFeedView((background ?? location).pathname)
+  const view: FeedView = matchedView ?? { kind: 'all' }
+  const isAnalytics = !videoId && isAnalyticsPath(location.pathname)
+  const isUnknownPath = !videoId && !matchedView && !isAnalytics
+
+  useEffect(() => {
+    if (isUnknownPath) navigate(ROUTES.feed, { replace: true })
+  }, [isUnknownPath, navigate])
+
+  const openView = useCallback((next: FeedView) => {
+    navigate(feedViewPath(next))
+  }, [navigate])
+
+  // Moving on to another video replaces the player's entry, so there is only ever
+  // one above the feed and closing the player returns to it in one step
+  const openVideo = useCallback((id: string) => {
+    if (videoId) {
+      navigate(watchPath(id), { replace: true, state: location.state })
+    } else {
+      navigate(watchPath(id), { state: { background: location } satisfies WatchRouteState })
+    }
+  }, [navigate, videoId, location])
+
+  // A shared link has no feed entry behind it to go back to
+  const closeVideo = useCallback(() => {
+    if (background) {
+      navigate(-1)
+    } else {
+      navigate(ROUTES.feed, { replace: true })
+    }
+  }, [navigate, background])
+
+  const openAnalytics = useCallback(() => {
+    navigate(ROUTES.analytics)
+  }, [navigate])
+
+  return { view, videoId, isAnalytics, openView, openVideo, closeVideo, openAnalytics }
+}
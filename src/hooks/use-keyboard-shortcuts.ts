@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react'
+import { isEditableTarget, matchShortcut, ShortcutKey } from '@/lib/shortcuts'
+
+export type ShortcutHandlers = Partial<Record<ShortcutKey, () => void>>
+
+/**
+ * Runs the handler bound to each shortcut on keydown anywhere in the page.
+ * Single-key shortcuts are skipped while typing in a field, and Enter is left
+ * to focused buttons and links; the palette and Escape work everywhere.
+ * Pass `enabled: false` while a dialog owns the keyboard.
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  // Handlers change every render; the listener reads the latest ones
+  const handlersRef = useRef(handlers)
+
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = matchShortcut(event)
+      if (!key || event.defaultPrevented) return
+      const alwaysOn = key === 'mod+k' || key === 'Escape'
+      if (!alwaysOn && isEditableTarget(event.target)) return
+      if (key === 'Enter' && event.target instanceof HTMLElement && event.target.closest('button, a')) return
+
+      const handler = handlersRef.current[key]
+      if (!handler) return
+      event.preventDefault()
+      handler()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [enabled])
+}
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react'
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange)
+  window.addEventListener('offline', onChange)
+  return () => {
+    window.removeEventListener('online', onChange)
+    window.removeEventListener('offline', onChange)
+  }
+}
+
+// navigator.onLine only knows about a missing connection, not whether YouTube is reachable
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribe, () => navigator.onLine)
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react'
+import { addUsage, currentLedger, QuotaEndpoint, QuotaLedger } from '@/lib/quota'
+
+const STORAGE_KEY = 'quotaLedger'
+
+const loadLedger = (): QuotaLedger | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : null
+  } catch {
+    return null
+  }
+}
+
+export function useQuotaLedger() {
+  const [ledger, setLedger] = useState<QuotaLedger>(() => currentLedger(loadLedger()))
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ledger))
+  }, [ledger])
+
+  // Roll over to a fresh ledger when the Pacific day changes while the app is open
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setLedger(prev => {
+        const current = currentLedger(prev)
+        return current === prev ? prev : current
+      })
+    }, 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const recordUsage = useCallback((endpoint: QuotaEndpoint) => {
+    setLedger(prev => addUsage(prev, endpoint))
+  }, [])
+
+  return { ledger, recordUsage }
+}
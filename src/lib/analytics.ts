@@ -0,0 +1,138 @@
+import type { Channel, FeedItem } from '@/types'
+
+// All figures are computed from the cached feed, so they only cover what the
+// last refresh fetched (the configured time range and videos per channel).
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ChannelUploadStats {
+  channelId: string
+  name: string
+  uploads: number
+  // Uploads per week between the channel's oldest fetched upload and now
+  perWeek: number
+}
+
+export interface ContentMixPoint {
+  // Monday of the week, as YYYY-MM-DD
+  week: string
+  longForm: number
+  shorts: number
+}
+
+export interface BacklogEntry {
+  channelId: string
+  name: string
+  unwatched: number
+}
+
+export interface WatchDay {
+  // YYYY-MM-DD in local time
+  day: string
+  watched: number
+}
+
+export interface ChannelActivity {
+  channelId: string
+  name: string
+  uploads: number
+  lastUpload: string | null
+  // Whole days since the newest fetched upload; null when nothing was fetched
+  daysSinceUpload: number | null
+}
+
+const localDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const startOfWeek = (date: Date) => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7))
+  return monday
+}
+
+const isUpload = (item: FeedItem) => item.type !== 'community'
+
+export const uploadFrequency = (channels: Channel[], items: FeedItem[], now = new Date()): ChannelUploadStats[] => {
+  const stats: ChannelUploadStats[] = []
+  for (const channel of channels) {
+    const uploads = items.filter(item => item.channelId === channel.id && isUpload(item))
+    if (uploads.length === 0) continue
+    const oldest = Math.min(...uploads.map(item => new Date(item.publishedAt).getTime()))
+    // At least one week, so a single upload yesterday doesn't read as 7 a week
+    const weeks = Math.max(1, (now.getTime() - oldest) / (7 * DAY_MS))
+    stats.push({ channelId: channel.id, name: channel.name, uploads: uploads.length, perWeek: uploads.length / weeks })
+  }
+  return stats.sort((a, b) => b.perWeek - a.perWeek)
+}
+
+// Weekly counts of Shorts and long-form uploads, oldest week first with empty weeks filled in
+export const contentMixByWeek = (items: FeedItem[]): ContentMixPoint[] => {
+  const uploads = items.filter(isUpload)
+  if (uploads.length === 0) return []
+
+  const counts = new Map<string, ContentMixPoint>()
+  const weeks = uploads.map(item => startOfWeek(new Date(item.publishedAt)).getTime())
+  const last = Math.max(...weeks)
+  for (let week = new Date(Math.min(...weeks)); week.getTime() <= last; week.setDate(week.getDate() + 7)) {
+    const key = localDay(week)
+    counts.set(key, { week: key, longForm: 0, shorts: 0 })
+  }
+  for (const item of uploads) {
+    const point = counts.get(localDay(startOfWeek(new Date(item.publishedAt))))
+    if (!point) continue
+    if (item.type === 'shorts') point.shorts++
+    else point.longForm++
+  }
+  return [...counts.values()]
+}
+
+export const unwatchedBacklog = (channels: Channel[], items: FeedItem[], watched: Set<string>): BacklogEntry[] =>
+  channels
+    .map(channel => ({
+      channelId: channel.id,
+      name: channel.name,
+      unwatched: items.filter(item => item.channelId === channel.id && !watched.has(item.id)).length
+    }))
+    .filter(entry => entry.unwatched > 0)
+    .sort((a, b) => b.unwatched - a.unwatched)
+
+/**
+ * Videos marked watched per day over the last `days` days, including days with
+ * none. `history` maps video ids to when they were marked; ids that have since
+ * been unmarked are skipped.
+ */
+export const watchHistoryByDay = (history: Record<string, string>, watched: Set<string>, days: number, now = new Date()): WatchDay[] => {
+  const counts = new Map<string, number>()
+  for (let offset = days - 1; offset >= 0; offset--) {
+    counts.set(localDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset)), 0)
+  }
+  for (const [videoId, watchedAt] of Object.entries(history)) {
+    if (!watched.has(videoId)) continue
+    const day = localDay(new Date(watchedAt))
+    if (counts.has(day)) counts.set(day, counts.get(day) + 1)
+  }
+  return [...counts].map(([day, count]) => ({ day, watched: count }))
+}
+
+// Quietest channels first; channels with nothing fetched come before all others
+export const channelActivity = (channels: Channel[], items: FeedItem[], now = new Date()): ChannelActivity[] =>
+  channels
+    .map(channel => {
+      const uploads = items.filter(item => item.channelId === channel.id && isUpload(item))
+      const lastUpload = uploads.reduce<string | null>(
+        (latest, item) => (!latest || item.publishedAt > latest ? item.publishedAt : latest),
+        null
+      )
+      return {
+        channelId: channel.id,
+        name: channel.name,
+        uploads: uploads.length,
+        lastUpload,
+        daysSinceUpload: lastUpload ? Math.floor((now.getTime() - new Date(lastUpload).getTime()) / DAY_MS) : null
+      }
+    })
+    .sort((a, b) => (b.daysSinceUpload ?? Number.MAX_SAFE_INTEGER) - (a.daysSinceUpload ?? Number.MAX_SAFE_INTEGER))
+
+// A channel counts as inactive when its newest fetched upload is older than `months` months
+export const isInactive = (activity: ChannelActivity, months: number) =>
+  activity.daysSinceUpload === null || activity.daysSinceUpload > months * 30
@@ -0,0 +1,96 @@
+import { FeedProxyError, loadProxiedFeed } from '@/lib/feed-proxy'
+import { YouTubeApiError } from '@/lib/youtube'
+
+const FEED_URL = 'https://www.youtube.com/feeds/videos.xml'
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom'
+const YT_NS = 'http://www.youtube.com/xml/schemas/2015'
+const MEDIA_NS = 'http://search.yahoo.com/mrss/'
+
+const PROXY_MISSING_MESSAGE =
+  'The Atom feed proxy is not available. Run the app with the Vite dev or preview server, or switch the feed source to the YouTube API.'
+
+// One upload from a channel's feed. The feed lists the latest 15 uploads and
+// has no durations, comment counts, tags or categories.
+export interface AtomEntry {
+  videoId: string
+  title: string
+  publishedAt: string
+  description: string
+  viewCount?: string
+  likeCount?: string
+  // YouTube links Shorts to /shorts/<id> instead of /watch?v=<id>
+  isShort: boolean
+}
+
+// The channel a feed belongs to, and its latest uploads
+export interface AtomFeed {
+  channelId: string
+  channelName: string
+  entries: AtomEntry[]
+}
+
+const text = (parent: Element, namespace: string, name: string) =>
+  parent.getElementsByTagNameNS(namespace, name)[0]?.textContent?.trim() ?? ''
+
+const attribute = (parent: Element, namespace: string, name: string, attr: string) =>
+  parent.getElementsByTagNameNS(namespace, name)[0]?.getAttribute(attr) ?? undefined
+
+export const parseAtomFeed = (xml: string): AtomFeed => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const root = doc.documentElement
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.namespaceURI !== ATOM_NS) {
+    throw new YouTubeApiError('invalidResponse', { message: 'The YouTube channel feed could not be read.' })
+  }
+  // The feed's own <author> comes before any entry's
+  const author = Array.from(root.children).find(el => el.localName === 'author' && el.namespaceURI === ATOM_NS)
+
+  const entries: AtomEntry[] = []
+  for (const entry of Array.from(doc.getElementsByTagNameNS(ATOM_NS, 'entry'))) {
+    const videoId = text(entry, YT_NS, 'videoId')
+    if (!videoId) continue
+    const link = Array.from(entry.getElementsByTagNameNS(ATOM_NS, 'link'))
+      .find(el => el.getAttribute('rel') === 'alternate')?.getAttribute('href') ?? ''
+    entries.push({
+      videoId,
+      title: text(entry, ATOM_NS, 'title'),
+      publishedAt: text(entry, ATOM_NS, 'published'),
+      description: text(entry, MEDIA_NS, 'description'),
+      viewCount: attribute(entry, MEDIA_NS, 'statistics', 'views'),
+      likeCount: attribute(entry, MEDIA_NS, 'starRating', 'count'),
+      isShort: link.includes('/shorts/')
+    })
+  }
+  return {
+    channelId: text(root, YT_NS, 'channelId'),
+    channelName: (author && text(author, ATOM_NS, 'name')) || text(root, ATOM_NS, 'title'),
+    entries
+  }
+}
+
+export async function fetchAtomFeed(channelId: string, signal?: AbortSignal): Promise<AtomFeed> {
+  if (signal?.aborted) {
+    throw new YouTubeApiError('aborted')
+  }
+
+  let xml: string
+  try {
+    xml = await loadProxiedFeed(`${FEED_URL}?channel_id=${encodeURIComponent(channelId)}`, signal)
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new YouTubeApiError('aborted')
+    }
+    if (!(error instanceof FeedProxyError)) throw error
+    switch (error.kind) {
+      case 'unavailable':
+        throw new YouTubeApiError('network', { status: error.status, message: PROXY_MISSING_MESSAGE })
+      case 'network':
+        throw new YouTubeApiError('network', { message: 'Could not reach the YouTube channel feed. Check your connection.' })
+      case 'notFound':
+        throw new YouTubeApiError('notFound', { status: 404, message: 'YouTube has no feed for this channel.' })
+      case 'failed':
+        throw new YouTubeApiError('unknown', { status: error.status, message: `The YouTube channel feed failed to load: ${error.message}` })
+    }
+  }
+  return parseAtomFeed(xml)
+}
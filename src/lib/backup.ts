@@ -0,0 +1,182 @@
+import { z } from 'zod'
+import type { Channel, FetchSettings, FilterRule } from '@/types'
+import { channelSchema, filterRuleSchema } from '@/lib/storage'
+import { getChannelGroups } from '@/lib/groups'
+
+export const BACKUP_VERSION = 1
+const BACKUP_APP = 'channel-feed'
+
+export interface BackupData {
+  channels: Channel[]
+  watchedVideos: string[]
+  fetchSettings: FetchSettings
+  groupOrder: string[]
+  filterRules: FilterRule[]
+}
+
+export type RestoreMode = 'replace' | 'merge'
+
+export interface RestoreReport {
+  channelsAdded: number
+  channelsUpdated: number
+  channelsRemoved: number
+  watchedAdded: number
+  watchedRemoved: number
+  settingsChanged: boolean
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupError'
+  }
+}
+
+const fetchSettingsSchema = z.object({
+  maxVideosPerChannel: z.number().int().positive(),
+  timeRangeDays: z.number().int().nonnegative(),
+  dailyQuotaBudget: z.number().positive(),
+  quotaBudgetMode: z.enum(['warn', 'block']),
+  fetchConcurrency: z.number().int().positive(),
+  shortsMaxSeconds: z.number().positive(),
+  autoMarkWatchedPercent: z.number().min(0).max(100),
+  autoRefreshMinutes: z.number().int().nonnegative(),
+  feedSource: z.enum(['api', 'atom', 'atomEnriched'])
+}).partial().passthrough()
+
+const backupSchema = z.object({
+  app: z.literal(BACKUP_APP, { errorMap: () => ({ message: 'This is not a Channel Feed backup file' }) }),
+  version: z.number().int(),
+  exportedAt: z.string().optional(),
+  channels: z.array(channelSchema),
+  watchedVideos: z.array(z.string()),
+  fetchSettings: fetchSettingsSchema,
+  groupOrder: z.array(z.string()).optional(),
+  filterRules: z.array(filterRuleSchema).optional()
+})
+
+export type BackupFile = z.infer<typeof backupSchema>
+
+export const createBackup = (data: BackupData) => JSON.stringify({
+  app: BACKUP_APP,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  // Watermarks describe this browser's stored feed, so they are not carried over
+  channels: data.channels.map(({ lastSeenAt, ...channel }) => channel),
+  watchedVideos: data.watchedVideos,
+  fetchSettings: data.fetchSettings,
+  groupOrder: data.groupOrder,
+  filterRules: data.filterRules
+}, null, 2)
+
+const describeIssue = (issue: z.ZodIssue) => {
+  const path = issue.path.join('.')
+  return path ? `${path}: ${issue.message}` : issue.message
+}
+
+// Parses and validates a backup file, throwing a BackupError that names the problem
+export const parseBackup = (text: string): BackupFile => {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new BackupError('The file is not valid JSON.')
+  }
+  const parsed = backupSchema.safeParse(json)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 3).map(describeIssue)
+    const more = parsed.error.issues.length > 3 ? ` (and ${parsed.error.issues.length - 3} more problems)` : ''
+    throw new BackupError(`The backup file is invalid: ${issues.join('; ')}${more}.`)
+  }
+  if (parsed.data.version > BACKUP_VERSION) {
+    throw new BackupError(`This backup was made by a newer version of the app (format ${parsed.data.version}).`)
+  }
+  return parsed.data
+}
+
+const sameContentTypes = (a: Channel['contentTypes'], b: Channel['contentTypes']) =>
+  a.longForm === b.longForm && a.shorts === b.shorts && a.community === b.community
+
+const sameGroups = (a: Channel, b: Channel) =>
+  getChannelGroups(a).join('\n') === getChannelGroups(b).join('\n')
+
+/**
+ * Combines the current state with a backup. `replace` takes the backup as is;
+ * `merge` adds missing channels, enables a content type when either side has it
+ * enabled, unions the groups, filter rules and watched sets and keeps the current
+ * fetch settings.
+ */
+export const restoreBackup = (current: BackupData, backup: BackupFile, mode: RestoreMode) => {
+  const backupChannels = backup.channels as Channel[]
+  const currentById = new Map(current.channels.map(c => [c.id, c]))
+  const backupById = new Map(backupChannels.map(c => [c.id, c]))
+  const report: RestoreReport = {
+    channelsAdded: 0,
+    channelsUpdated: 0,
+    channelsRemoved: 0,
+    watchedAdded: 0,
+    watchedRemoved: 0,
+    settingsChanged: false
+  }
+
+  let channels: Channel[]
+  let watchedVideos: string[]
+  let fetchSettings: FetchSettings
+  let groupOrder: string[]
+  let filterRules: FilterRule[]
+
+  if (mode === 'replace') {
+    channels = backupChannels.map(channel => {
+      const existing = currentById.get(channel.id)
+      if (!existing) {
+        report.channelsAdded++
+      } else if (!sameContentTypes(existing.contentTypes, channel.contentTypes) || !sameGroups(existing, channel)) {
+        report.channelsUpdated++
+      }
+      return channel
+    })
+    report.channelsRemoved = current.channels.filter(c => !backupById.has(c.id)).length
+    watchedVideos = [...new Set(backup.watchedVideos)]
+    fetchSettings = { ...current.fetchSettings, ...backup.fetchSettings }
+    report.settingsChanged = JSON.stringify(fetchSettings) !== JSON.stringify(current.fetchSettings)
+    groupOrder = backup.groupOrder ?? current.groupOrder
+    filterRules = (backup.filterRules as FilterRule[]) ?? current.filterRules
+  } else {
+    channels = current.channels.map(channel => {
+      const incoming = backupById.get(channel.id)
+      if (!incoming) return channel
+      const contentTypes = {
+        longForm: channel.contentTypes.longForm || incoming.contentTypes.longForm,
+        shorts: channel.contentTypes.shorts || incoming.contentTypes.shorts,
+        community: channel.contentTypes.community || incoming.contentTypes.community
+      }
+      const groups = [...new Set([...getChannelGroups(channel), ...getChannelGroups(incoming)])]
+      const typesChanged = !sameContentTypes(contentTypes, channel.contentTypes)
+      if (!typesChanged && groups.length === getChannelGroups(channel).length) return channel
+      report.channelsUpdated++
+      // Newly enabled types need a full fetch
+      return { ...channel, contentTypes, groups, lastSeenAt: typesChanged ? undefined : channel.lastSeenAt }
+    })
+    for (const channel of backupChannels) {
+      if (!currentById.has(channel.id)) {
+        channels.push(channel)
+        report.channelsAdded++
+      }
+    }
+    watchedVideos = [...new Set([...current.watchedVideos, ...backup.watchedVideos])]
+    fetchSettings = current.fetchSettings
+    groupOrder = [...new Set([...current.groupOrder, ...(backup.groupOrder ?? [])])]
+    const currentRuleIds = new Set(current.filterRules.map(rule => rule.id))
+    filterRules = [
+      ...current.filterRules,
+      ...((backup.filterRules ?? []) as FilterRule[]).filter(rule => !currentRuleIds.has(rule.id))
+    ]
+  }
+
+  const currentWatched = new Set(current.watchedVideos)
+  const nextWatched = new Set(watchedVideos)
+  report.watchedAdded = watchedVideos.filter(id => !currentWatched.has(id)).length
+  report.watchedRemoved = current.watchedVideos.filter(id => !nextWatched.has(id)).length
+
+  return { data: { channels, watchedVideos, fetchSettings, groupOrder, filterRules }, report }
+}
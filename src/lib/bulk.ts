@@ -0,0 +1,36 @@
+import type { FeedItem } from '@/types'
+
+/**
+ * Adds `ids` to or removes them from a set of video ids. `changed` lists only
+ * the ids whose state actually flipped, so undoing the change leaves ids that
+ * were already in the requested state alone.
+ */
+export const updateMembership = (current: Set<string>, ids: Iterable<string>, include: boolean) => {
+  const next = new Set(current)
+  const changed: string[] = []
+  for (const id of ids) {
+    if (next.has(id) === include) continue
+    if (include) next.add(id)
+    else next.delete(id)
+    changed.push(id)
+  }
+  return { next, changed }
+}
+
+// Stamps newly watched ids with the current time, or forgets unwatched ones
+export const updateWatchHistory = (history: Record<string, string>, ids: string[], watched: boolean) => {
+  const next = { ...history }
+  const at = new Date().toISOString()
+  for (const id of ids) {
+    if (watched) next[id] = at
+    else delete next[id]
+  }
+  return next
+}
+
+// Items published before the start of `day`, a YYYY-MM-DD value from a date input, in local time
+export const publishedBefore = (items: FeedItem[], day: string) => {
+  const cutoff = new Date(`${day}T00:00:00`).getTime()
+  if (Number.isNaN(cutoff)) return []
+  return items.filter(item => new Date(item.publishedAt).getTime() < cutoff)
+}
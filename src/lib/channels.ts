@@ -0,0 +1,160 @@
+import type { Channel } from '@/types'
+import { ChannelResource, getThumbnailUrl, YouTubeApiError, YouTubeClient } from '@/lib/youtube'
+import { fetchAtomFeed } from '@/lib/atom'
+import { runWithConcurrency } from '@/lib/pool'
+
+export const DEFAULT_CONTENT_TYPES: Channel['contentTypes'] = {
+  longForm: true,
+  shorts: true,
+  community: false
+}
+
+export const channelFromResource = (resource: ChannelResource): Channel => ({
+  id: resource.id,
+  name: resource.snippet?.title || resource.id,
+  thumbnail: getThumbnailUrl(resource.snippet?.thumbnails),
+  uploadsPlaylistId: resource.contentDetails?.relatedPlaylists?.uploads || '',
+  contentTypes: { ...DEFAULT_CONTENT_TYPES }
+})
+
+// channels accepts up to 50 ids per 1-unit call
+export const CHANNEL_LOOKUP_BATCH = 50
+
+/**
+ * Resolves channel ids to `Channel` records with their uploads playlist in
+ * batched lookups. Ids the API does not return are reported in `missing`.
+ */
+export async function lookupChannels(youtube: YouTubeClient, ids: string[]) {
+  const channels: Channel[] = []
+  for (let i = 0; i < ids.length; i += CHANNEL_LOOKUP_BATCH) {
+    const data = await youtube.channels({ id: ids.slice(i, i + CHANNEL_LOOKUP_BATCH), part: 'snippet,contentDetails' })
+    channels.push(...data.items.map(channelFromResource))
+  }
+  const found = new Set(channels.map(c => c.id))
+  // Keep the order of the imported file
+  channels.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+  return { channels, missing: ids.filter(id => !found.has(id)) }
+}
+
+// Feeds read at the same time when channels are looked up without an API key
+const FEED_LOOKUP_CONCURRENCY = 4
+
+/**
+ * Resolves channel ids through their public Atom feeds, for when no API key is
+ * set. The feeds carry the channel's name but no avatar or uploads playlist;
+ * the playlist is looked up on the first API refresh. Ids without a feed are
+ * reported in `missing`.
+ */
+export async function lookupChannelsFromFeeds(ids: string[]) {
+  const found = new Map<string, Channel>()
+  const missing: string[] = []
+  // Any other failure (such as a missing proxy) would repeat for every id, so it stops the lookup
+  const controller = new AbortController()
+  let failure: unknown = null
+  await runWithConcurrency(ids, FEED_LOOKUP_CONCURRENCY, async (id) => {
+    try {
+      const feed = await fetchAtomFeed(id, controller.signal)
+      found.set(id, { id, name: feed.channelName || id, thumbnail: '', contentTypes: { ...DEFAULT_CONTENT_TYPES } })
+    } catch (error) {
+      if (error instanceof YouTubeApiError && error.code === 'notFound') {
+        missing.push(id)
+      } else if (!controller.signal.aborted) {
+        failure = error
+        controller.abort()
+      }
+    }
+  }, controller.signal)
+  if (failure) throw failure
+  // Keep the order of the imported file
+  const channels = ids.filter(id => found.has(id)).map(id => found.get(id))
+  return { channels, missing }
+}
+
+// What a pasted YouTube address points at
+export type YouTubeAddress =
+  | { kind: 'id'; value: string }
+  | { kind: 'handle'; value: string }
+  // Legacy /user/<name> and /c/<name> addresses
+  | { kind: 'username'; value: string; custom: boolean }
+  | { kind: 'video'; value: string }
+
+const YOUTUBE_HOST = /^(?:www\.|m\.)?youtube\.com$/
+const CHANNEL_ID = /^UC[\w-]{22}$/
+const VIDEO_ID = /^[\w-]{11}$/
+const HANDLE = /^@[\w.-]{3,30}$/
+
+// Items from other sources carry a prefixed id such as rss:… or peertube:…
+export const isYouTubeVideoId = (id: string) => VIDEO_ID.test(id)
+
+/**
+ * Recognises a bare @handle, or a youtube.com / youtu.be address of a channel
+ * (/channel/UC…, /@handle, /c/…, /user/…) or of a video (watch, Shorts, live,
+ * embed). Returns null for anything else, which is searched for instead.
+ */
+export const parseYouTubeAddress = (input: string): YouTubeAddress | null => {
+  const text = input.trim()
+  if (HANDLE.test(text)) return { kind: 'handle', value: text }
+
+  let url: URL
+  try {
+    url = new URL(/^https?:\/\//.test(text) ? text : `https://${text}`)
+  } catch {
+    return null
+  }
+  const [first, second] = url.pathname.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment)
+    } catch {
+      return segment
+    }
+  })
+
+  if (url.hostname === 'youtu.be') {
+    return first && VIDEO_ID.test(first) ? { kind: 'video', value: first } : null
+  }
+  if (!YOUTUBE_HOST.test(url.hostname) || !first) return null
+
+  if (first === 'channel' && second && CHANNEL_ID.test(second)) return { kind: 'id', value: second }
+  if (first.startsWith('@')) return { kind: 'handle', value: first }
+  if ((first === 'c' || first === 'user') && second) return { kind: 'username', value: second, custom: first === 'c' }
+  if (first === 'watch') {
+    const id = url.searchParams.get('v')
+    return id && VIDEO_ID.test(id) ? { kind: 'video', value: id } : null
+  }
+  if ((first === 'shorts' || first === 'live' || first === 'embed') && second && VIDEO_ID.test(second)) {
+    return { kind: 'video', value: second }
+  }
+  return null
+}
+
+/**
+ * Resolves a parsed address to its channel with 1-unit calls: one channels
+ * lookup, preceded by a videos lookup for video links. /c/ names are not
+ * always the channel's handle or username, so both are tried. Returns null
+ * when YouTube knows no such channel.
+ */
+export async function resolveYouTubeChannel(youtube: YouTubeClient, address: YouTubeAddress): Promise<Channel | null> {
+  const part = 'snippet,contentDetails'
+  let resources: ChannelResource[]
+  switch (address.kind) {
+    case 'id':
+      resources = (await youtube.channels({ id: address.value, part })).items
+      break
+    case 'handle':
+      resources = (await youtube.channels({ forHandle: address.value, part })).items
+      break
+    case 'username':
+      resources = (await youtube.channels({ forUsername: address.value, part })).items
+      if (resources.length === 0 && address.custom) {
+        resources = (await youtube.channels({ forHandle: address.value, part })).items
+      }
+      break
+    case 'video': {
+      const video = (await youtube.videos({ id: [address.value], part: 'snippet' })).items[0]
+      const channelId = video?.snippet?.channelId
+      resources = channelId ? (await youtube.channels({ id: channelId, part })).items : []
+      break
+    }
+  }
+  return resources[0] ? channelFromResource(resources[0]) : null
+}
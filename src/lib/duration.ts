@@ -0,0 +1,36 @@
+const ISO_DURATION = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+
+/**
+ * Parses an ISO 8601 duration as returned by the videos endpoint (e.g. PT1H2M3S,
+ * P1DT4H) into seconds. Returns null for strings that are not durations.
+ */
+export const parseIsoDuration = (value: string): number | null => {
+  const match = value.match(ISO_DURATION)
+  if (!match || value === 'P' || value.endsWith('T')) return null
+  const [, weeks, days, hours, minutes, seconds] = match
+  return (
+    parseInt(weeks || '0') * 7 * 86400 +
+    parseInt(days || '0') * 86400 +
+    parseInt(hours || '0') * 3600 +
+    parseInt(minutes || '0') * 60 +
+    Math.round(parseFloat(seconds || '0'))
+  )
+}
+
+// Formats seconds the way YouTube badges do: 0:45, 12:03, 1:02:03
+export const formatDuration = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${minutes}:${pad(seconds)}`
+}
+
+// Parses a clock-style duration such as 1:02:03, 12:03 or a plain 3723 (podcast
+// feeds use all three) into seconds. Returns null for anything else.
+export const parseClockDuration = (value: string): number | null => {
+  if (!/^\d+(?::\d{1,2}){0,2}(?:\.\d+)?$/.test(value.trim())) return null
+  return Math.round(value.trim().split(':').reduce((total, part) => total * 60 + parseFloat(part), 0))
+}
@@ -0,0 +1,56 @@
+// Most feeds send no CORS headers, YouTube's channel feeds included, so every
+// feed is fetched through the dev and preview servers (see feedProxyPlugin in
+// vite.config.ts)
+const FEED_PROXY_PATH = '/feed-proxy'
+
+// The proxy marks each of its answers, so anything else means it isn't running
+const FEED_PROXY_HEADER = 'x-feed-proxy'
+
+export type FeedProxyErrorKind = 'unavailable' | 'network' | 'notFound' | 'failed'
+
+export class FeedProxyError extends Error {
+  kind: FeedProxyErrorKind
+  status?: number
+
+  constructor(kind: FeedProxyErrorKind, message: string, status?: number) {
+    super(message)
+    this.name = 'FeedProxyError'
+    this.kind = kind
+    this.status = status
+  }
+}
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+
+// Resolves to the feed's XML. Stop rejects with the browser's own AbortError.
+export async function loadProxiedFeed(url: string, signal?: AbortSignal): Promise<string> {
+  let response: Response
+  try {
+    response = await fetch(`${FEED_PROXY_PATH}?url=${encodeURIComponent(url)}`, { signal })
+  } catch (error) {
+    if (isAbort(error)) throw error
+    throw new FeedProxyError('network', 'Could not reach the feed proxy. Check your connection.')
+  }
+  if (!response.headers.has(FEED_PROXY_HEADER)) {
+    throw new FeedProxyError(
+      'unavailable',
+      'The feed proxy is not available. Feeds can only be read when the app runs on the Vite dev or preview server.',
+      response.status
+    )
+  }
+  try {
+    if (!response.ok) {
+      // The proxy explains what went wrong in plain text
+      const message = await response.text()
+      throw new FeedProxyError(
+        response.status === 404 ? 'notFound' : 'failed',
+        message || `The feed failed to load (HTTP ${response.status}).`,
+        response.status
+      )
+    }
+    return await response.text()
+  } catch (error) {
+    if (isAbort(error) || error instanceof FeedProxyError) throw error
+    throw new FeedProxyError('network', 'The feed stopped loading. Check your connection.')
+  }
+}
@@ -0,0 +1,336 @@
+import type { Channel, FeedItem, FetchSettings, Video } from '@/types'
+import { PlaylistItemResource, VIDEO_CATEGORIES, VideoResource, YouTubeApiError, YouTubeClient } from '@/lib/youtube'
+import { formatDuration, parseIsoDuration } from '@/lib/duration'
+import { fetchAtomFeed } from '@/lib/atom'
+
+export const buildVideoKey = (item: FeedItem) => {
+  return `${item.type}-${item.channelId}-${item.id}`
+}
+
+// Community posts are the only feed items that are not videos
+export const isVideo = (item: FeedItem): item is Video => item.type !== 'community'
+
+// Community posts have no title, so their text stands in for one
+export const itemTitle = (item: FeedItem) => isVideo(item) ? item.title : item.content
+
+export const sortByNewest = (items: FeedItem[]) =>
+  items.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+
+// Adds incoming items to the stored feed, replacing entries with the same key
+export const mergeFeedItems = (existing: FeedItem[], incoming: FeedItem[]) => {
+  const nextMap = new Map(existing.map(item => [buildVideoKey(item), item]))
+  for (const item of incoming) {
+    nextMap.set(buildVideoKey(item), item)
+  }
+  return sortByNewest(Array.from(nextMap.values()))
+}
+
+// Each channel keeps this many times the per-refresh limit, so older items stay
+// browsable for a few refreshes without the stored feed growing forever
+export const FEED_RETENTION_FACTOR = 3
+
+/**
+ * Drops items of channels that are no longer followed and keeps only the newest
+ * `maxPerChannel` items of each channel. Ids in `keepIds` (e.g. Watch Later)
+ * are kept regardless and don't count towards the limit.
+ */
+export const pruneFeedItems = (items: FeedItem[], channels: Channel[], maxPerChannel: number, keepIds: Set<string> = new Set()) => {
+  const followed = new Set(channels.map(channel => channel.id))
+  const counts = new Map<string, number>()
+  return sortByNewest([...items]).filter(item => {
+    if (keepIds.has(item.id)) return true
+    if (!followed.has(item.channelId)) return false
+    const count = (counts.get(item.channelId) ?? 0) + 1
+    counts.set(item.channelId, count)
+    return count <= maxPerChannel
+  })
+}
+
+type ShortsRule = Pick<FetchSettings, 'shortsMaxSeconds'>
+
+// Live streams and premieres report a zero duration, so they never count as Shorts
+export const isShort = (durationSeconds: number | undefined, rule: ShortsRule) =>
+  Boolean(durationSeconds && durationSeconds <= rule.shortsMaxSeconds)
+
+// Re-evaluates a stored video against a changed Shorts rule without refetching it
+export const applyShortsRule = (video: Video, rule: ShortsRule): Video => {
+  if (video.durationSeconds === undefined) return video
+  const type = isShort(video.durationSeconds, rule) ? 'shorts' : 'longForm'
+  return type === video.type ? video : { ...video, type }
+}
+
+export interface ChannelFetchResult {
+  items: FeedItem[]
+  // Channel fields to persist after the fetch (cached playlist id, new watermark)
+  updates: Partial<Channel>
+}
+
+// List endpoints return at most 50 items per 1-unit call
+const MAX_PAGE_SIZE = 50
+
+const getCutoffDate = (settings: FetchSettings) => {
+  const cutoffDate = new Date()
+  cutoffDate.setDate(cutoffDate.getDate() - settings.timeRangeDays)
+  return cutoffDate
+}
+
+// Whether an item falls inside the configured time range (0 means no limit)
+export const isWithinTimeRange = (publishedAt: string, settings: FetchSettings) =>
+  settings.timeRangeDays === 0 || new Date(publishedAt) >= getCutoffDate(settings)
+
+export const newestPublishedAt = (current: string | undefined, dates: string[]) => {
+  let newest = current
+  for (const date of dates) {
+    if (!newest || new Date(date) > new Date(newest)) {
+      newest = date
+    }
+  }
+  return newest
+}
+
+/**
+ * Fetches a channel's uploads and community posts. The uploads playlist is paged
+ * until `maxVideosPerChannel` items of the enabled types are found or the time
+ * range cutoff is reached. Channels with a `lastSeenAt` watermark are refreshed
+ * incrementally: paging stops at the first item that is already in the feed or
+ * not newer than the watermark.
+ */
+export async function fetchChannelItems(
+  youtube: YouTubeClient,
+  channel: Channel,
+  settings: FetchSettings,
+  knownVideoIds: Set<string> = new Set()
+): Promise<ChannelFetchResult> {
+  const channelVideos: FeedItem[] = []
+  const updates: Partial<Channel> = {}
+  const maxResults = settings.maxVideosPerChannel
+  const cutoffDate = getCutoffDate(settings)
+  const since = channel.lastSeenAt
+  const isIncremental = Boolean(since)
+
+  // Use cached uploadsPlaylistId or fetch if missing
+  let uploadsPlaylistId = channel.uploadsPlaylistId
+  if (!uploadsPlaylistId) {
+    // One-time fetch if not cached (happens for legacy channels)
+    const channelData = await youtube.channels({ id: channel.id, part: 'contentDetails' })
+    if (channelData.items.length === 0) {
+      throw new YouTubeApiError('notFound', { message: `Channel "${channel.name}" no longer exists on YouTube.` })
+    }
+    uploadsPlaylistId = channelData.items[0].contentDetails?.relatedPlaylists?.uploads
+
+    // Cache it for future refreshes
+    if (uploadsPlaylistId) {
+      updates.uploadsPlaylistId = uploadsPlaylistId
+    }
+  }
+
+  if (uploadsPlaylistId && (channel.contentTypes.longForm || channel.contentTypes.shorts)) {
+    // Walk the uploads playlist newest-first using playlistItems (1 unit per page - much
+    // cheaper than search!). Each page is followed by one batched videos lookup.
+    const maxScanned = Math.max(maxResults * 4, MAX_PAGE_SIZE)
+    const seenPublishedAt: string[] = []
+    let uploadsCount = 0
+    let pageToken: string | undefined
+    let done = false
+
+    while (!done) {
+      const playlistData = await youtube.playlistItems({ playlistId: uploadsPlaylistId, maxResults: MAX_PAGE_SIZE, pageToken })
+      const pageItems: PlaylistItemResource[] = []
+      for (const item of playlistData.items) {
+        const videoId = item.snippet.resourceId?.videoId
+        if (isIncremental && ((videoId && knownVideoIds.has(videoId)) ||
+            new Date(item.snippet.publishedAt) <= new Date(since))) {
+          // Everything from here on is already in the feed
+          done = true
+          break
+        }
+        if (settings.timeRangeDays !== 0 && new Date(item.snippet.publishedAt) < cutoffDate) {
+          // The playlist is ordered newest first, so the rest is outside the time range
+          done = true
+          break
+        }
+        pageItems.push(item)
+      }
+      seenPublishedAt.push(...pageItems.map(item => item.snippet.publishedAt))
+
+      // Collect video IDs for batch duration check (up to 50 per request = 1 unit)
+      const videoIds = pageItems
+        .map(item => item.snippet.resourceId?.videoId)
+        .filter((id): id is string => Boolean(id))
+
+      const { videoDetails, videoDurations } = await lookupVideoDetails(youtube, videoIds)
+
+      for (const item of pageItems) {
+        const snippet = item.snippet
+        const videoId = snippet.resourceId?.videoId
+        const details = videoId ? videoDetails[videoId] : undefined
+        const durationSeconds = videoId ? videoDurations[videoId] : undefined
+        const type: Video['type'] = isShort(durationSeconds, settings) ? 'shorts' : 'longForm'
+
+        // Only add based on content type preference
+        if ((type === 'longForm' && channel.contentTypes.longForm) ||
+            (type === 'shorts' && channel.contentTypes.shorts)) {
+          channelVideos.push({
+            id: videoId || '',
+            title: snippet.title,
+            thumbnail: snippet.thumbnails?.medium?.url || '',
+            channelName: channel.name,
+            channelId: channel.id,
+            publishedAt: snippet.publishedAt,
+            viewCount: details?.statistics?.viewCount || '',
+            likeCount: details?.statistics?.likeCount,
+            commentCount: details?.statistics?.commentCount,
+            description: details?.snippet?.description ?? snippet.description,
+            tags: details?.snippet?.tags,
+            category: details?.snippet?.categoryId ? VIDEO_CATEGORIES[details.snippet.categoryId] : undefined,
+            duration: durationSeconds ? formatDuration(durationSeconds) : '',
+            durationSeconds,
+            type: type
+          })
+          uploadsCount++
+          if (uploadsCount >= maxResults) {
+            done = true
+            break
+          }
+        }
+      }
+
+      pageToken = playlistData.nextPageToken
+      // Stop on the last page, and cap the scan for channels whose uploads are
+      // mostly of a disabled type
+      if (!pageToken || seenPublishedAt.length >= maxScanned) {
+        done = true
+      }
+    }
+
+    updates.lastSeenAt = newestPublishedAt(since, seenPublishedAt)
+  }
+
+  if (channel.contentTypes.community) {
+    const community = await fetchCommunityPosts(youtube, channel, settings)
+    channelVideos.push(...community.items)
+    updates.lastSeenAt = newestPublishedAt(updates.lastSeenAt ?? since, community.publishedAt)
+  }
+
+  return { items: channelVideos, updates }
+}
+
+/**
+ * Fetches a channel's uploads from its public Atom feed, which needs no API key
+ * and costs no quota but only lists the latest 15 uploads. With a `youtube`
+ * client the uploads are enriched with one batched videos lookup (1 unit) for
+ * durations, statistics and full descriptions, and community posts are fetched
+ * as well; without one, Shorts are told apart by their /shorts/ link and
+ * community posts are skipped.
+ */
+export async function fetchChannelItemsFromAtom(
+  channel: Channel,
+  settings: FetchSettings,
+  knownVideoIds: Set<string> = new Set(),
+  options: { youtube?: YouTubeClient; signal?: AbortSignal } = {}
+): Promise<ChannelFetchResult> {
+  const { youtube, signal } = options
+  const channelVideos: FeedItem[] = []
+  const updates: Partial<Channel> = {}
+  const cutoffDate = getCutoffDate(settings)
+  const since = channel.lastSeenAt
+
+  if (channel.contentTypes.longForm || channel.contentTypes.shorts) {
+    const { entries } = await fetchAtomFeed(channel.id, signal)
+    // The feed can't be paged, so the watermark and time range only filter it
+    const pageEntries = entries.filter(entry =>
+      !(since && (knownVideoIds.has(entry.videoId) || new Date(entry.publishedAt) <= new Date(since))) &&
+      (settings.timeRangeDays === 0 || new Date(entry.publishedAt) >= cutoffDate)
+    )
+    const { videoDetails, videoDurations } = youtube
+      ? await lookupVideoDetails(youtube, pageEntries.map(entry => entry.videoId))
+      : { videoDetails: {}, videoDurations: {} }
+
+    for (const entry of pageEntries) {
+      const details: VideoResource | undefined = videoDetails[entry.videoId]
+      const durationSeconds: number | undefined = videoDurations[entry.videoId]
+      const type: Video['type'] = (durationSeconds === undefined ? entry.isShort : isShort(durationSeconds, settings))
+        ? 'shorts'
+        : 'longForm'
+
+      if ((type === 'longForm' && channel.contentTypes.longForm) ||
+          (type === 'shorts' && channel.contentTypes.shorts)) {
+        channelVideos.push({
+          id: entry.videoId,
+          title: entry.title,
+          // The feed's own thumbnail is the letterboxed 4:3 one; this matches the API's medium size
+          thumbnail: `https://i.ytimg.com/vi/${entry.videoId}/mqdefault.jpg`,
+          channelName: channel.name,
+          channelId: channel.id,
+          publishedAt: entry.publishedAt,
+          viewCount: details?.statistics?.viewCount ?? entry.viewCount ?? '',
+          likeCount: details?.statistics?.likeCount ?? entry.likeCount,
+          commentCount: details?.statistics?.commentCount,
+          description: details?.snippet?.description ?? entry.description,
+          tags: details?.snippet?.tags,
+          category: details?.snippet?.categoryId ? VIDEO_CATEGORIES[details.snippet.categoryId] : undefined,
+          duration: durationSeconds ? formatDuration(durationSeconds) : '',
+          durationSeconds,
+          type
+        })
+        if (channelVideos.length >= settings.maxVideosPerChannel) break
+      }
+    }
+
+    updates.lastSeenAt = newestPublishedAt(since, entries.map(entry => entry.publishedAt))
+  }
+
+  if (channel.contentTypes.community && youtube) {
+    const community = await fetchCommunityPosts(youtube, channel, settings)
+    channelVideos.push(...community.items)
+    updates.lastSeenAt = newestPublishedAt(updates.lastSeenAt ?? since, community.publishedAt)
+  }
+
+  return { items: channelVideos, updates }
+}
+
+// Batch fetch durations, statistics and full snippets (1 unit for up to 50 videos!)
+async function lookupVideoDetails(youtube: YouTubeClient, videoIds: string[]) {
+  const videoDetails: Record<string, VideoResource> = {}
+  const videoDurations: Record<string, number> = {}
+  if (videoIds.length > 0) {
+    const videoData = await youtube.videos({ id: videoIds })
+    for (const video of videoData.items) {
+      videoDetails[video.id] = video
+      const seconds = video.contentDetails?.duration ? parseIsoDuration(video.contentDetails.duration) : null
+      if (seconds !== null) {
+        videoDurations[video.id] = seconds
+      }
+    }
+  }
+  return { videoDetails, videoDurations }
+}
+
+// activities can filter by date itself, so incremental refreshes only pay for new posts
+async function fetchCommunityPosts(youtube: YouTubeClient, channel: Channel, settings: FetchSettings) {
+  const cutoffDate = getCutoffDate(settings)
+  const items: FeedItem[] = []
+  const communityData = await youtube.activities({
+    channelId: channel.id,
+    maxResults: Math.min(settings.maxVideosPerChannel, MAX_PAGE_SIZE),
+    publishedAfter: channel.lastSeenAt
+  })
+  for (const item of communityData.items) {
+    if (item.snippet.type === 'community') {
+      const itemDate = new Date(item.snippet.publishedAt)
+
+      if (settings.timeRangeDays === 0 || itemDate >= cutoffDate) {
+        items.push({
+          id: item.snippet.description?.substring(0, 50) || item.id,
+          content: item.snippet.description || 'Community post',
+          thumbnail: item.snippet.thumbnails?.medium?.url || '',
+          channelName: channel.name,
+          channelId: channel.id,
+          publishedAt: item.snippet.publishedAt,
+          type: 'community'
+        })
+      }
+    }
+  }
+  return { items, publishedAt: communityData.items.map(item => item.snippet.publishedAt) }
+}
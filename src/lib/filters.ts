@@ -0,0 +1,119 @@
+import type { FeedItem, FilterRule } from '@/types'
+import { formatDuration } from '@/lib/duration'
+import { isVideo, itemTitle } from '@/lib/feed'
+
+export interface HiddenItem {
+  item: FeedItem
+  rule: FilterRule
+}
+
+export interface FilterResult {
+  visible: FeedItem[]
+  hidden: HiddenItem[]
+}
+
+export interface FilterContext {
+  watched: Set<string>
+  now?: Date
+}
+
+type TitleRule = Extract<FilterRule, { type: 'title' }>
+
+export const createRuleId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+// Returns the browser's message for a pattern that cannot be compiled
+export const validateRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i')
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression'
+  }
+}
+
+// Null for regex rules that no longer compile; those are skipped
+const compileTitleRule = (rule: TitleRule): ((text: string) => boolean) | null => {
+  if (rule.isRegex) {
+    if (validateRegex(rule.pattern)) return null
+    const regex = new RegExp(rule.pattern, 'i')
+    return text => regex.test(text)
+  }
+  const needle = rule.pattern.toLowerCase()
+  return text => text.toLowerCase().includes(needle)
+}
+
+export const describeRule = (rule: FilterRule) => {
+  switch (rule.type) {
+    case 'title': {
+      const pattern = rule.isRegex ? `/${rule.pattern}/` : `"${rule.pattern}"`
+      return rule.mode === 'include'
+        ? `Title doesn't ${rule.isRegex ? 'match' : 'contain'} ${pattern}`
+        : `Title ${rule.isRegex ? 'matches' : 'contains'} ${pattern}`
+    }
+    case 'minDuration': return `Shorter than ${formatDuration(rule.seconds)}`
+    case 'maxDuration': return `Longer than ${formatDuration(rule.seconds)}`
+    case 'hideWatched': return 'Watched'
+    case 'olderThan': return `Older than ${rule.days} ${rule.days === 1 ? 'day' : 'days'}`
+  }
+}
+
+/**
+ * Splits feed items into visible and hidden ones. Each hidden item carries the
+ * first rule that hid it, so the UI can say why. Durations only apply to videos
+ * whose length is known.
+ */
+export const applyFilterRules = (items: FeedItem[], rules: FilterRule[], context: FilterContext): FilterResult => {
+  const active = rules.filter(rule => rule.enabled)
+  if (active.length === 0) return { visible: items, hidden: [] }
+
+  const matchers = new Map<string, (text: string) => boolean>()
+  for (const rule of active) {
+    if (rule.type === 'title') {
+      const matcher = compileTitleRule(rule)
+      if (matcher) matchers.set(rule.id, matcher)
+    }
+  }
+  const now = (context.now || new Date()).getTime()
+
+  const hiddenBy = (item: FeedItem): FilterRule | null => {
+    const applicable = active.filter(rule => !rule.channelId || rule.channelId === item.channelId)
+    const title = itemTitle(item)
+    const includes = applicable.filter(rule => rule.type === 'title' && rule.mode === 'include' && matchers.has(rule.id))
+    if (includes.length > 0 && !includes.some(rule => matchers.get(rule.id)(title))) {
+      return includes[0]
+    }
+    const seconds = isVideo(item) ? item.durationSeconds : undefined
+    for (const rule of applicable) {
+      switch (rule.type) {
+        case 'title':
+          if (rule.mode === 'exclude' && matchers.get(rule.id)?.(title)) return rule
+          break
+        case 'minDuration':
+          if (seconds !== undefined && seconds < rule.seconds) return rule
+          break
+        case 'maxDuration':
+          if (seconds !== undefined && seconds > rule.seconds) return rule
+          break
+        case 'hideWatched':
+          if (context.watched.has(item.id)) return rule
+          break
+        case 'olderThan':
+          if (now - new Date(item.publishedAt).getTime() > rule.days * 24 * 60 * 60 * 1000) return rule
+          break
+      }
+    }
+    return null
+  }
+
+  const visible: FeedItem[] = []
+  const hidden: HiddenItem[] = []
+  for (const item of items) {
+    const rule = hiddenBy(item)
+    if (rule) {
+      hidden.push({ item, rule })
+    } else {
+      visible.push(item)
+    }
+  }
+  return { visible, hidden }
+}
@@ -0,0 +1,4 @@
+const compactNumber = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 })
+
+// 1234567 -> 1.2M, as shown on YouTube cards
+export const formatCount = (value: string | number) => compactNumber.format(Number(value))
@@ -0,0 +1,92 @@
+import type { Channel, FeedItem } from '@/types'
+
+export const getChannelGroups = (channel: Channel) => channel.groups || []
+
+export const isInGroup = (channel: Channel, group: string | null) =>
+  group === null ? getChannelGroups(channel).length === 0 : getChannelGroups(channel).includes(group)
+
+// Group names in display order: the saved order first, then any new names alphabetically
+export const orderGroups = (channels: Channel[], groupOrder: string[]) => {
+  const used = new Set(channels.flatMap(getChannelGroups))
+  const ordered = groupOrder.filter(group => used.has(group))
+  const rest = [...used].filter(group => !ordered.includes(group)).sort((a, b) => a.localeCompare(b))
+  return [...ordered, ...rest]
+}
+
+// Moves `group` to the position of `beforeGroup` in the display order
+export const reorderGroups = (groups: string[], group: string, beforeGroup: string) => {
+  const rest = groups.filter(g => g !== group)
+  const index = rest.indexOf(beforeGroup)
+  rest.splice(index === -1 ? rest.length : index, 0, group)
+  return rest
+}
+
+export const toggleChannelGroup = (channel: Channel, group: string): Channel => {
+  const groups = getChannelGroups(channel)
+  return {
+    ...channel,
+    groups: groups.includes(group) ? groups.filter(g => g !== group) : [...groups, group]
+  }
+}
+
+/**
+ * Handles a channel dropped in the sidebar: moves it from `fromGroup` to
+ * `toGroup` (null is the ungrouped section) and places it before
+ * `beforeChannelId`, or at the end when that is not given.
+ */
+export const moveChannel = (
+  channels: Channel[],
+  channelId: string,
+  fromGroup: string | null,
+  toGroup: string | null,
+  beforeChannelId?: string
+) => {
+  const channel = channels.find(c => c.id === channelId)
+  if (!channel || channelId === beforeChannelId) return channels
+
+  let groups = getChannelGroups(channel)
+  if (fromGroup !== toGroup) {
+    groups = groups.filter(g => g !== fromGroup)
+    if (toGroup !== null && !groups.includes(toGroup)) {
+      groups = [...groups, toGroup]
+    }
+  }
+
+  const rest = channels.filter(c => c.id !== channelId)
+  const index = beforeChannelId ? rest.findIndex(c => c.id === beforeChannelId) : -1
+  rest.splice(index === -1 ? rest.length : index, 0, { ...channel, groups })
+  return rest
+}
+
+export const removeGroup = (channels: Channel[], group: string) =>
+  channels.map(channel => isInGroup(channel, group)
+    ? { ...channel, groups: getChannelGroups(channel).filter(g => g !== group) }
+    : channel)
+
+// Watched and unwatched feed items per group name; the ungrouped section is keyed by ''
+export const countWatchStateByGroup = (channels: Channel[], videos: FeedItem[], watched: Set<string>) => {
+  const byChannel = new Map<string, { watched: number; unwatched: number }>()
+  for (const item of videos) {
+    const counts = byChannel.get(item.channelId) ?? { watched: 0, unwatched: 0 }
+    if (watched.has(item.id)) {
+      counts.watched++
+    } else {
+      counts.unwatched++
+    }
+    byChannel.set(item.channelId, counts)
+  }
+  const counts: Record<string, { watched: number; unwatched: number }> = {}
+  for (const channel of channels) {
+    const channelCounts = byChannel.get(channel.id)
+    if (!channelCounts) continue
+    const groups = getChannelGroups(channel)
+    for (const group of groups.length > 0 ? groups : ['']) {
+      const groupCounts = counts[group] ?? { watched: 0, unwatched: 0 }
+      counts[group] = {
+        watched: groupCounts.watched + channelCounts.watched,
+        unwatched: groupCounts.unwatched + channelCounts.unwatched
+      }
+    }
+  }
+  return counts
+}
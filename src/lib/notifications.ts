@@ -0,0 +1,49 @@
+import type { Channel, FeedItem } from '@/types'
+
+// More new uploads than this in one refresh are summed up in a single notification
+const MAX_SEPARATE_NOTIFICATIONS = 3
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window
+
+// Resolves to whether notifications may be shown, asking the user the first time
+export const requestNotificationPermission = async () => {
+  if (!notificationsSupported()) return false
+  if (Notification.permission === 'granted') return true
+  if (Notification.permission === 'denied') return false
+  return (await Notification.requestPermission()) === 'granted'
+}
+
+/**
+ * Shows notifications for new uploads from channels that opted in. Clicking one
+ * focuses the tab and calls `onOpen` with the video id, or null for a summary.
+ */
+export const notifyNewUploads = (items: FeedItem[], channels: Channel[], onOpen: (videoId: string | null) => void) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return
+
+  const notifyChannels = new Map(channels.filter(c => c.notify).map(c => [c.id, c]))
+  const uploads = items.filter(item => item.type !== 'community' && notifyChannels.has(item.channelId))
+  if (uploads.length === 0) return
+
+  const show = (title: string, options: NotificationOptions, videoId: string | null) => {
+    const notification = new Notification(title, options)
+    notification.onclick = () => {
+      window.focus()
+      onOpen(videoId)
+      notification.close()
+    }
+  }
+
+  if (uploads.length > MAX_SEPARATE_NOTIFICATIONS) {
+    const names = [...new Set(uploads.map(item => item.channelName))]
+    show(`${uploads.length} new uploads`, {
+      body: names.length > 3 ? `${names.slice(0, 3).join(', ')} and ${names.length - 3} more` : names.join(', '),
+      tag: 'new-uploads'
+    }, null)
+    return
+  }
+
+  for (const item of uploads) {
+    if (item.type === 'community') continue
+    show(item.channelName, { body: item.title, icon: notifyChannels.get(item.channelId)?.thumbnail, tag: item.id }, item.id)
+  }
+}
@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import type { FeedItem, Video } from '@/types'
+import { formatDuration } from '@/lib/duration'
+import { isWithinTimeRange, newestPublishedAt } from '@/lib/feed'
+import { fetchFromSource, NON_YOUTUBE_CONTENT_TYPES, parseHttpUrl, SourceError, SourceProvider } from '@/lib/sources'
+
+// PeerTube channels, read from the instance's REST API (which allows CORS) and
+// played in the instance's embed player
+
+// Paths of a channel page: /c/<name> and the older /video-channels/<name>
+const CHANNEL_PATH = /^\/(?:c|video-channels)\/([^/]+)/
+
+// The videos endpoint returns at most 100 items per call
+const MAX_PAGE_SIZE = 100
+
+const avatarSchema = z.object({
+  path: z.string(),
+  width: z.number().optional()
+})
+
+const channelResponseSchema = z.object({
+  name: z.string(),
+  displayName: z.string(),
+  avatars: z.array(avatarSchema).optional(),
+  // Instances before v6 send a single avatar
+  avatar: avatarSchema.nullable().optional()
+})
+
+const videoResponseSchema = z.object({
+  uuid: z.string(),
+  shortUUID: z.string().optional(),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  duration: z.number(),
+  views: z.number(),
+  likes: z.number().optional(),
+  publishedAt: z.string(),
+  thumbnailPath: z.string().nullable().optional(),
+  embedPath: z.string()
+})
+
+const videoListSchema = z.object({
+  data: z.array(videoResponseSchema)
+})
+
+type PeerTubeChannel = { origin: string; name: string }
+
+const parseChannelUrl = (input: string): PeerTubeChannel | null => {
+  const url = parseHttpUrl(input)
+  const match = url?.pathname.match(CHANNEL_PATH)
+  return url && match ? { origin: url.origin, name: decodeURIComponent(match[1]) } : null
+}
+
+const fetchJson = async <T>(url: string, schema: z.ZodType<T>, signal?: AbortSignal): Promise<T> => {
+  const response = await fetchFromSource(url, signal)
+  const parsed = schema.safeParse(await response.json().catch(() => null))
+  if (!parsed.success) {
+    throw new SourceError(`${new URL(url).host} did not answer like a PeerTube instance.`)
+  }
+  return parsed.data
+}
+
+const apiUrl = ({ origin, name }: PeerTubeChannel, path = '') =>
+  `${origin}/api/v1/video-channels/${encodeURIComponent(name)}${path}`
+
+export const peertubeSource: SourceProvider = {
+  kind: 'peertube',
+  label: 'PeerTube',
+  openLabel: 'Open in PeerTube',
+  matches: input => parseChannelUrl(input) !== null,
+
+  resolve: async (input) => {
+    const target = parseChannelUrl(input)
+    if (!target) throw new SourceError('Enter the address of a PeerTube channel, such as https://example.org/c/channel.')
+    const channel = await fetchJson(apiUrl(target), channelResponseSchema)
+    const avatar = [...(channel.avatars ?? [])].sort((a, b) => (b.width ?? 0) - (a.width ?? 0))[0] ?? channel.avatar
+    return {
+      id: `peertube:${channel.name}@${new URL(target.origin).host}`,
+      name: channel.displayName,
+      thumbnail: avatar ? `${target.origin}${avatar.path}` : '',
+      source: 'peertube',
+      sourceUrl: `${target.origin}/c/${encodeURIComponent(channel.name)}`,
+      contentTypes: { ...NON_YOUTUBE_CONTENT_TYPES }
+    }
+  },
+
+  fetchItems: async (channel, { settings, signal }) => {
+    const target = parseChannelUrl(channel.sourceUrl ?? '')
+    if (!target) throw new SourceError(`"${channel.name}" has no PeerTube channel address.`)
+    const count = Math.min(settings.maxVideosPerChannel, MAX_PAGE_SIZE)
+    const { data } = await fetchJson(apiUrl(target, `/videos?count=${count}&sort=-publishedAt`), videoListSchema, signal)
+    const items: FeedItem[] = data
+      .filter(video => isWithinTimeRange(video.publishedAt, settings))
+      .map((video): Video => ({
+        id: `peertube:${video.uuid}`,
+        title: video.name,
+        thumbnail: video.thumbnailPath ? `${target.origin}${video.thumbnailPath}` : channel.thumbnail,
+        channelName: channel.name,
+        channelId: channel.id,
+        publishedAt: video.publishedAt,
+        viewCount: String(video.views),
+        likeCount: video.likes !== undefined ? String(video.likes) : undefined,
+        description: video.description ?? undefined,
+        duration: video.duration ? formatDuration(video.duration) : '',
+        durationSeconds: video.duration || undefined,
+        type: 'longForm',
+        source: 'peertube',
+        url: `${target.origin}/w/${video.shortUUID ?? video.uuid}`,
+        embedUrl: `${target.origin}${video.embedPath}`
+      }))
+    return {
+      items,
+      updates: { lastSeenAt: newestPublishedAt(channel.lastSeenAt, data.map(video => video.publishedAt)) }
+    }
+  },
+
+  embed: (video, startSeconds) => video.embedUrl
+    ? { kind: 'iframe', url: `${video.embedUrl}?autoplay=1${startSeconds ? `&start=${Math.floor(startSeconds)}s` : ''}` }
+    : null,
+  watchUrl: video => video.url ?? '',
+  channelUrl: channel => channel.sourceUrl ?? '',
+  feedUrl: channel => {
+    const target = parseChannelUrl(channel.sourceUrl ?? '')
+    return target ? `${target.origin}/feeds/videos.xml?videoChannelName=${encodeURIComponent(target.name)}` : ''
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight. Items that have
+ * not started yet are skipped once `signal` aborts. The worker is expected to
+ * handle its own errors; a rejection stops that runner's remaining items.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+) {
+  let next = 0
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++
+      await worker(items[index], index)
+    }
+  })
+  await Promise.all(runners)
+}
@@ -0,0 +1,39 @@
+import type { WatchProgress } from '@/types'
+
+// Resume points kept at most; the least recently updated are dropped first
+const MAX_RESUME_POINTS = 1000
+
+// Positions this close to either end start the video from the beginning
+const RESUME_MARGIN_SECONDS = 10
+
+export const progressPercent = (progress: WatchProgress | undefined) =>
+  progress && progress.duration > 0 ? Math.min(100, (progress.position / progress.duration) * 100) : 0
+
+// Where to reopen a video; 0 when it was barely started or already finished
+export const resumePosition = (progress: WatchProgress | undefined) => {
+  if (!progress || progress.position < RESUME_MARGIN_SECONDS) return 0
+  if (progress.duration > 0 && progress.duration - progress.position < RESUME_MARGIN_SECONDS) return 0
+  return Math.floor(progress.position)
+}
+
+export const recordProgress = (
+  all: Record<string, WatchProgress>,
+  videoId: string,
+  position: number,
+  duration: number
+): Record<string, WatchProgress> => {
+  const next = { ...all, [videoId]: { position, duration, updatedAt: new Date().toISOString() } }
+  const ids = Object.keys(next)
+  if (ids.length <= MAX_RESUME_POINTS) return next
+
+  const oldest = ids
+    .sort((a, b) => next[a].updatedAt.localeCompare(next[b].updatedAt))
+    .slice(0, ids.length - MAX_RESUME_POINTS)
+  for (const id of oldest) {
+    delete next[id]
+  }
+  return next
+}
+
+export const hasReachedThreshold = (position: number, duration: number, thresholdPercent: number) =>
+  thresholdPercent > 0 && duration > 0 && (position / duration) * 100 >= thresholdPercent
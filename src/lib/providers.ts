@@ -0,0 +1,60 @@
+import type { SourceKind } from '@/types'
+import { lookupChannelsFromFeeds, parseYouTubeAddress, resolveYouTubeChannel } from '@/lib/channels'
+import { fetchChannelItems, fetchChannelItemsFromAtom } from '@/lib/feed'
+import { peertubeSource } from '@/lib/peertube'
+import { rssSource } from '@/lib/rss'
+import { SourceError, SourceProvider } from '@/lib/sources'
+
+export const youtubeSource: SourceProvider = {
+  kind: 'youtube',
+  label: 'YouTube',
+  openLabel: 'Open in YouTube',
+  // @handles and channel or video addresses; other text goes to the 100-unit search
+  matches: input => parseYouTubeAddress(input) !== null,
+
+  resolve: async (input, youtube) => {
+    const address = parseYouTubeAddress(input)
+    if (!address) throw new SourceError('Enter a YouTube @handle, or the address of a channel or video.')
+    if (!youtube) {
+      // Without a key only a channel id can be resolved, through the channel's Atom feed
+      if (address.kind !== 'id') {
+        throw new SourceError('Without an API key, add YouTube channels by their youtube.com/channel/UC… address.')
+      }
+      const { channels } = await lookupChannelsFromFeeds([address.value])
+      if (channels.length === 0) throw new SourceError('No YouTube channel was found at that address.')
+      return channels[0]
+    }
+    const channel = await resolveYouTubeChannel(youtube, address)
+    if (!channel) {
+      throw new SourceError(address.kind === 'video' ? 'That video no longer exists.' : 'No YouTube channel was found at that address.')
+    }
+    return channel
+  },
+
+  // The feed source setting picks between the Data API and the channel's Atom feed
+  fetchItems: async (channel, { settings, knownVideoIds, youtube, signal }) => {
+    if (settings.feedSource === 'atom' || settings.feedSource === 'atomEnriched') {
+      return fetchChannelItemsFromAtom(channel, settings, knownVideoIds, {
+        youtube: settings.feedSource === 'atomEnriched' ? youtube ?? undefined : undefined,
+        signal
+      })
+    }
+    if (!youtube) throw new SourceError('An API key is required to fetch YouTube channels.')
+    return fetchChannelItems(youtube, channel, settings, knownVideoIds)
+  },
+
+  embed: video => ({ kind: 'youtube', videoId: video.id }),
+  watchUrl: video => `https://www.youtube.com/watch?v=${video.id}`,
+  channelUrl: channel => `https://www.youtube.com/channel/${channel.id}`,
+  feedUrl: channel => `https://www.youtube.com/feeds/videos.xml?channel_id=${channel.id}`
+}
+
+// In matching order: the RSS provider accepts any web address, so it comes last
+export const SOURCE_PROVIDERS: SourceProvider[] = [youtubeSource, peertubeSource, rssSource]
+
+export const providerFor = (kind: SourceKind) =>
+  SOURCE_PROVIDERS.find(provider => provider.kind === kind) ?? youtubeSource
+
+// The provider that can add a channel from a typed address, if any
+export const findProviderForInput = (input: string) =>
+  SOURCE_PROVIDERS.find(provider => provider.matches(input)) ?? null
@@ -0,0 +1,86 @@
+import type { Channel, FeedSource } from '@/types'
+import { sourceOf } from '@/lib/sources'
+
+// Unit cost of each YouTube Data API endpoint the app calls
+export const QUOTA_COSTS = {
+  search: 100,
+  channels: 1,
+  playlistItems: 1,
+  videos: 1,
+  activities: 1
+} as const
+
+export type QuotaEndpoint = keyof typeof QUOTA_COSTS
+
+// Default daily allowance of a new Google Cloud project
+export const DEFAULT_DAILY_QUOTA = 10000
+
+export interface QuotaLedger {
+  // Pacific-time calendar day (YYYY-MM-DD) the counts belong to
+  day: string
+  used: number
+  byEndpoint: Partial<Record<QuotaEndpoint, number>>
+}
+
+const pacificDayFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/Los_Angeles',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+})
+
+// YouTube quotas reset at midnight Pacific time, not the user's local midnight
+export const getPacificDay = (date = new Date()) => pacificDayFormat.format(date)
+
+export const createLedger = (day = getPacificDay()): QuotaLedger => ({ day, used: 0, byEndpoint: {} })
+
+// Returns the ledger for today, starting a fresh one once the Pacific day rolls over
+export const currentLedger = (ledger: QuotaLedger | null) => {
+  const today = getPacificDay()
+  return ledger && ledger.day === today ? ledger : createLedger(today)
+}
+
+export const addUsage = (ledger: QuotaLedger | null, endpoint: QuotaEndpoint): QuotaLedger => {
+  const current = currentLedger(ledger)
+  const cost = QUOTA_COSTS[endpoint]
+  return {
+    ...current,
+    used: current.used + cost,
+    byEndpoint: {
+      ...current.byEndpoint,
+      [endpoint]: (current.byEndpoint[endpoint] || 0) + cost
+    }
+  }
+}
+
+// Estimate of the units a full refresh of these channels will spend; only YouTube channels use quota
+export const estimateRefreshCost = (channels: Channel[], maxVideosPerChannel: number, source: FeedSource = 'api') => {
+  let cost = 0
+  if (source === 'atom') return cost
+  for (const channel of channels) {
+    if (sourceOf(channel) !== 'youtube') continue
+    if (source === 'atomEnriched') {
+      // The feed lists at most 15 uploads, so one videos lookup covers them
+      if (channel.contentTypes.longForm || channel.contentTypes.shorts) cost += QUOTA_COSTS.videos
+      if (channel.contentTypes.community) cost += QUOTA_COSTS.activities
+      continue
+    }
+    if (!channel.uploadsPlaylistId) cost += QUOTA_COSTS.channels
+    if (channel.contentTypes.longForm || channel.contentTypes.shorts) {
+      // Each 50-item playlist page is followed by one batched videos lookup. Assume
+      // about half of the uploads match the enabled content types.
+      const pages = Math.ceil((maxVideosPerChannel * 2) / 50)
+      cost += pages * (QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos)
+    }
+    if (channel.contentTypes.community) cost += QUOTA_COSTS.activities
+  }
+  return cost
+}
+
+// Milliseconds until the next Pacific midnight, used for the "resets in" hint
+export const msUntilQuotaReset = (now = new Date()) => {
+  const pacificNow = new Date(now.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }))
+  const nextMidnight = new Date(pacificNow)
+  nextMidnight.setHours(24, 0, 0, 0)
+  return nextMidnight.getTime() - pacificNow.getTime()
+}
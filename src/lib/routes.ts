@@ -0,0 +1,57 @@
+import { matchPath } from 'react-router-dom'
+
+export const ROUTES = {
+  feed: '/',
+  channel: '/channel/:channelId',
+  group: '/group/:groupName',
+  dismissed: '/hidden',
+  watch: '/watch/:videoId',
+  analytics: '/analytics'
+} as const
+
+// Which part of the feed is shown
+export type FeedView =
+  | { kind: 'all' }
+  | { kind: 'channel'; channelId: string }
+  | { kind: 'group'; group: string }
+  // Items the user dismissed, where they can be restored
+  | { kind: 'dismissed' }
+
+export const feedViewPath = (view: FeedView) => {
+  switch (view.kind) {
+    case 'all': return ROUTES.feed
+    case 'channel': return `/channel/${encodeURIComponent(view.channelId)}`
+    case 'group': return `/group/${encodeURIComponent(view.group)}`
+    case 'dismissed': return ROUTES.dismissed
+  }
+}
+
+export const watchPath = (videoId: string) => `/watch/${encodeURIComponent(videoId)}`
+
+// matchPath leaves escapes other than %2F in its params, so names with spaces and
+// ids such as rss:… have to be decoded here; a malformed escape is kept as typed
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+// Returns null for paths that are not a feed view
+export const matchFeedView = (pathname: string): FeedView | null => {
+  if (matchPath(ROUTES.feed, pathname)) return { kind: 'all' }
+  const channel = matchPath(ROUTES.channel, pathname)
+  if (channel?.params.channelId) return { kind: 'channel', channelId: decodeParam(channel.params.channelId) }
+  const group = matchPath(ROUTES.group, pathname)
+  if (group?.params.groupName) return { kind: 'group', group: decodeParam(group.params.groupName) }
+  if (matchPath(ROUTES.dismissed, pathname)) return { kind: 'dismissed' }
+  return null
+}
+
+export const isAnalyticsPath = (pathname: string) => matchPath(ROUTES.analytics, pathname) !== null
+
+export const matchWatchVideoId = (pathname: string) => {
+  const videoId = matchPath(ROUTES.watch, pathname)?.params.videoId
+  return videoId ? decodeParam(videoId) : null
+}
@@ -0,0 +1,192 @@
+import type { Channel, FeedItem, Video } from '@/types'
+import { formatDuration, parseClockDuration } from '@/lib/duration'
+import { isWithinTimeRange, newestPublishedAt } from '@/lib/feed'
+import { FeedProxyError, loadProxiedFeed } from '@/lib/feed-proxy'
+import { NON_YOUTUBE_CONTENT_TYPES, parseHttpUrl, SourceError, SourceProvider } from '@/lib/sources'
+
+// Generic RSS 2.0 and Atom feeds, such as video podcasts. Items play in the
+// browser's own player when they carry a media enclosure.
+
+const YOUTUBE_HOST = /(^|\.)(youtube\.com|youtu\.be)$/
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom'
+const MEDIA_NS = 'http://search.yahoo.com/mrss/'
+const ITUNES_NS = 'http://www.itunes.com/dtds/podcast-1.0.dtd'
+
+export interface FeedEntry {
+  guid: string
+  title: string
+  publishedAt: string
+  link?: string
+  description?: string
+  mediaUrl?: string
+  thumbnail?: string
+  durationSeconds?: number
+}
+
+export interface ParsedFeed {
+  title: string
+  image?: string
+  entries: FeedEntry[]
+}
+
+// Direct children only, so a channel's <title> isn't confused with its items'
+const child = (parent: Element, name: string, namespace: string | null = null) =>
+  Array.from(parent.children).find(el => el.localName === name && el.namespaceURI === namespace)
+
+const childText = (parent: Element, name: string, namespace: string | null = null) =>
+  child(parent, name, namespace)?.textContent?.trim() || undefined
+
+// Media RSS thumbnails may sit inside a <media:group>
+const mediaThumbnail = (parent: Element) =>
+  parent.getElementsByTagNameNS(MEDIA_NS, 'thumbnail')[0]?.getAttribute('url') ?? undefined
+
+const isPlayable = (type: string | null) => !type || type.startsWith('video/') || type.startsWith('audio/')
+
+const toIsoDate = (value: string | undefined) => {
+  const date = value ? new Date(value) : null
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null
+}
+
+const parseRssItem = (item: Element): FeedEntry | null => {
+  const publishedAt = toIsoDate(childText(item, 'pubDate'))
+  const enclosure = child(item, 'enclosure')
+  const mediaContent = Array.from(item.getElementsByTagNameNS(MEDIA_NS, 'content'))
+    .find(el => isPlayable(el.getAttribute('type')))
+  const mediaUrl = (enclosure && isPlayable(enclosure.getAttribute('type')) ? enclosure.getAttribute('url') : null) ??
+    mediaContent?.getAttribute('url') ?? undefined
+  const link = childText(item, 'link')
+  const guid = childText(item, 'guid') ?? link ?? mediaUrl
+  if (!publishedAt || !guid) return null
+  const duration = childText(item, 'duration', ITUNES_NS)
+  return {
+    guid,
+    title: childText(item, 'title') ?? 'Untitled',
+    publishedAt,
+    link,
+    description: childText(item, 'description'),
+    mediaUrl,
+    thumbnail: child(item, 'image', ITUNES_NS)?.getAttribute('href') ?? mediaThumbnail(item),
+    durationSeconds: duration ? parseClockDuration(duration) ?? undefined : undefined
+  }
+}
+
+const parseAtomEntry = (entry: Element): FeedEntry | null => {
+  const publishedAt = toIsoDate(childText(entry, 'published', ATOM_NS) ?? childText(entry, 'updated', ATOM_NS))
+  const links = Array.from(entry.children).filter(el => el.localName === 'link' && el.namespaceURI === ATOM_NS)
+  const link = links.find(el => (el.getAttribute('rel') ?? 'alternate') === 'alternate')?.getAttribute('href') ?? undefined
+  const mediaUrl = links.find(el => el.getAttribute('rel') === 'enclosure' && isPlayable(el.getAttribute('type')))
+    ?.getAttribute('href') ?? undefined
+  const guid = childText(entry, 'id', ATOM_NS) ?? link ?? mediaUrl
+  if (!publishedAt || !guid) return null
+  return {
+    guid,
+    title: childText(entry, 'title', ATOM_NS) ?? 'Untitled',
+    publishedAt,
+    link,
+    description: childText(entry, 'summary', ATOM_NS) ?? childText(entry, 'content', ATOM_NS),
+    mediaUrl,
+    thumbnail: mediaThumbnail(entry)
+  }
+}
+
+export const parseFeed = (xml: string): ParsedFeed => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const root = doc.documentElement
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new SourceError('This is not an RSS or Atom feed.')
+  }
+
+  if (root.localName === 'feed' && root.namespaceURI === ATOM_NS) {
+    const entries = Array.from(root.children).filter(el => el.localName === 'entry' && el.namespaceURI === ATOM_NS)
+    return {
+      title: childText(root, 'title', ATOM_NS) ?? '',
+      image: childText(root, 'logo', ATOM_NS) ?? childText(root, 'icon', ATOM_NS),
+      entries: entries.map(parseAtomEntry).filter((entry): entry is FeedEntry => entry !== null)
+    }
+  }
+
+  const channel = root.localName === 'rss' ? child(root, 'channel') : undefined
+  if (!channel) {
+    throw new SourceError('This is not an RSS or Atom feed.')
+  }
+  const image = child(channel, 'image')
+  return {
+    title: childText(channel, 'title') ?? '',
+    image: child(channel, 'image', ITUNES_NS)?.getAttribute('href') ?? (image ? childText(image, 'url') : undefined),
+    entries: Array.from(channel.children)
+      .filter(el => el.localName === 'item' && el.namespaceURI === null)
+      .map(parseRssItem)
+      .filter((entry): entry is FeedEntry => entry !== null)
+  }
+}
+
+const loadFeed = async (url: string, signal?: AbortSignal) => {
+  let xml: string
+  try {
+    xml = await loadProxiedFeed(url, signal)
+  } catch (error) {
+    if (!(error instanceof FeedProxyError)) throw error
+    throw new SourceError(error.kind === 'notFound' ? `Nothing was found at ${url}.` : error.message)
+  }
+  return parseFeed(xml)
+}
+
+export const rssSource: SourceProvider = {
+  kind: 'rss',
+  label: 'RSS',
+  openLabel: 'Open the original',
+  // Any other web address is tried as a feed, so this provider is registered last
+  matches: input => parseHttpUrl(input) !== null,
+
+  resolve: async (input) => {
+    const url = parseHttpUrl(input)
+    if (!url) throw new SourceError('Enter the address of an RSS or Atom feed.')
+    // YouTube addresses the YouTube provider didn't recognise, such as playlists
+    if (YOUTUBE_HOST.test(url.hostname)) {
+      throw new SourceError('Only YouTube channels can be added: paste a channel or video link, or an @handle.')
+    }
+    const feed = await loadFeed(url.href)
+    return {
+      id: `rss:${url.href}`,
+      name: feed.title || url.host,
+      thumbnail: feed.image ?? '',
+      source: 'rss',
+      sourceUrl: url.href,
+      contentTypes: { ...NON_YOUTUBE_CONTENT_TYPES }
+    }
+  },
+
+  fetchItems: async (channel, { settings, signal }) => {
+    const feed = await loadFeed(channel.sourceUrl ?? '', signal)
+    const items: FeedItem[] = feed.entries
+      .filter(entry => isWithinTimeRange(entry.publishedAt, settings))
+      .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+      .slice(0, settings.maxVideosPerChannel)
+      .map((entry): Video => ({
+        id: `rss:${entry.guid}`,
+        title: entry.title,
+        thumbnail: entry.thumbnail ?? channel.thumbnail,
+        channelName: channel.name,
+        channelId: channel.id,
+        publishedAt: entry.publishedAt,
+        viewCount: '',
+        description: entry.description,
+        duration: entry.durationSeconds ? formatDuration(entry.durationSeconds) : '',
+        durationSeconds: entry.durationSeconds,
+        type: 'longForm',
+        source: 'rss',
+        url: entry.link,
+        mediaUrl: entry.mediaUrl
+      }))
+    return {
+      items,
+      updates: { lastSeenAt: newestPublishedAt(channel.lastSeenAt, feed.entries.map(entry => entry.publishedAt)) }
+    }
+  },
+
+  embed: video => video.mediaUrl ? { kind: 'media', url: video.mediaUrl } : null,
+  watchUrl: video => video.url ?? video.mediaUrl ?? '',
+  channelUrl: channel => channel.sourceUrl ?? '',
+  feedUrl: channel => channel.sourceUrl ?? ''
+}
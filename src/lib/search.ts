@@ -0,0 +1,177 @@
+import type { ContentType, FeedItem } from '@/types'
+import { isVideo, itemTitle } from '@/lib/feed'
+
+type Comparison = '<' | '<=' | '>' | '>=' | '='
+
+export interface FeedQuery {
+  // Lowercased words and quoted phrases that must all appear in the text
+  terms: string[]
+  excludedTerms: string[]
+  channels: string[]
+  types: ContentType[]
+  watched?: boolean
+  before?: Date
+  after?: Date
+  durations: { comparison: Comparison; seconds: number }[]
+}
+
+const TYPE_ALIASES: Record<string, ContentType> = {
+  video: 'longForm',
+  videos: 'longForm',
+  long: 'longForm',
+  longform: 'longForm',
+  short: 'shorts',
+  shorts: 'shorts',
+  post: 'community',
+  posts: 'community',
+  community: 'community'
+}
+
+// "90", "20m", "1h30m", "45s"; a bare number is minutes
+const parseDurationValue = (value: string) => {
+  if (/^\d+(\.\d+)?$/.test(value)) return Math.round(Number(value) * 60)
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/)
+  if (!match || !match[0]) return null
+  return Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0)
+}
+
+const parseDate = (value: string) => {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Splits on whitespace, keeping "quoted phrases" and key:"quoted values" together
+const tokenize = (query: string) => query.match(/-?(?:[\w]+:)?"[^"]*"?|\S+/g) || []
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '')
+
+/**
+ * Parses a feed search such as `tutorial channel:"linus" type:video is:unwatched
+ * after:2024-01-01 duration:>20m`. Operators that don't parse are searched for as
+ * plain text, so typing never throws.
+ */
+export const parseFeedQuery = (query: string): FeedQuery => {
+  const parsed: FeedQuery = { terms: [], excludedTerms: [], channels: [], types: [], durations: [] }
+
+  for (const token of tokenize(query.trim())) {
+    const operator = token.match(/^(\w+):(.+)$/)
+    if (operator) {
+      const key = operator[1].toLowerCase()
+      const value = unquote(operator[2]).toLowerCase()
+      if (key === 'channel' && value) {
+        parsed.channels.push(value)
+        continue
+      }
+      if (key === 'type' && TYPE_ALIASES[value]) {
+        parsed.types.push(TYPE_ALIASES[value])
+        continue
+      }
+      if (key === 'is' && (value === 'watched' || value === 'unwatched')) {
+        parsed.watched = value === 'watched'
+        continue
+      }
+      if ((key === 'before' || key === 'after') && parseDate(value)) {
+        parsed[key] = parseDate(value)
+        continue
+      }
+      if (key === 'duration') {
+        const comparison = value.match(/^(<=|>=|<|>|=)?(.+)$/)
+        const seconds = comparison ? parseDurationValue(comparison[2]) : null
+        if (seconds !== null) {
+          parsed.durations.push({ comparison: (comparison[1] || '=') as Comparison, seconds })
+          continue
+        }
+      }
+    }
+
+    if (token.startsWith('-') && token.length > 1) {
+      parsed.excludedTerms.push(unquote(token.slice(1)).toLowerCase())
+    } else {
+      const term = unquote(token).toLowerCase()
+      if (term) parsed.terms.push(term)
+    }
+  }
+  return parsed
+}
+
+export const isEmptyQuery = (query: FeedQuery) =>
+  query.terms.length === 0 && query.excludedTerms.length === 0 && query.channels.length === 0 &&
+  query.types.length === 0 && query.watched === undefined && !query.before && !query.after &&
+  query.durations.length === 0
+
+// Feed items are replaced rather than mutated, so the lowercased text can be cached per object
+const textCache = new WeakMap<FeedItem, string>()
+
+const lowercaseText = (item: FeedItem) => {
+  let text = textCache.get(item)
+  if (text === undefined) {
+    text = itemTitle(item).toLowerCase()
+    textCache.set(item, text)
+  }
+  return text
+}
+
+const compare = (value: number, comparison: Comparison, target: number) => {
+  switch (comparison) {
+    case '<': return value < target
+    case '<=': return value <= target
+    case '>': return value > target
+    case '>=': return value >= target
+    case '=': return Math.abs(value - target) < 60
+  }
+}
+
+export const matchesFeedQuery = (item: FeedItem, query: FeedQuery, watched: Set<string>) => {
+  if (query.types.length > 0 && !query.types.includes(item.type)) return false
+  if (query.watched !== undefined && watched.has(item.id) !== query.watched) return false
+  if (query.channels.length > 0) {
+    const channelName = item.channelName.toLowerCase()
+    if (!query.channels.some(channel => channelName.includes(channel))) return false
+  }
+  if (query.before || query.after) {
+    const published = new Date(item.publishedAt).getTime()
+    if (query.before && published >= query.before.getTime()) return false
+    if (query.after && published < query.after.getTime()) return false
+  }
+  if (query.durations.length > 0) {
+    const seconds = isVideo(item) ? item.durationSeconds : undefined
+    if (seconds === undefined) return false
+    if (!query.durations.every(({ comparison, seconds: target }) => compare(seconds, comparison, target))) return false
+  }
+  const text = lowercaseText(item)
+  return query.terms.every(term => text.includes(term)) &&
+    !query.excludedTerms.some(term => text.includes(term))
+}
+
+export interface TextPart {
+  text: string
+  match: boolean
+}
+
+// Splits text into plain and matching parts for highlighting search terms
+export const splitHighlights = (text: string, terms: string[]): TextPart[] => {
+  if (terms.length === 0 || !text) return [{ text, match: false }]
+  const lower = text.toLowerCase()
+  const ranges: [number, number][] = []
+  for (const term of terms) {
+    let index = lower.indexOf(term)
+    while (index !== -1) {
+      ranges.push([index, index + term.length])
+      index = lower.indexOf(term, index + term.length)
+    }
+  }
+  if (ranges.length === 0) return [{ text, match: false }]
+
+  ranges.sort((a, b) => a[0] - b[0])
+  const parts: TextPart[] = []
+  let position = 0
+  for (const [start, end] of ranges) {
+    if (end <= position) continue
+    const from = Math.max(start, position)
+    if (from > position) parts.push({ text: text.slice(position, from), match: false })
+    parts.push({ text: text.slice(from, end), match: true })
+    position = end
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), match: false })
+  return parts
+}
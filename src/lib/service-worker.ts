@@ -0,0 +1,11 @@
+// Registers the service worker that the build emits as /sw.js from src/sw.js.
+// Skipped in development, where there is no build and a cached shell would
+// hide changes from the dev server.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering the service worker:', error)
+    })
+  })
+}
@@ -0,0 +1,33 @@
+// Keyboard shortcuts, as listed in the ? overlay. `key` is matched against
+// KeyboardEvent.key; `mod+` means Ctrl, or Cmd on macOS.
+export const SHORTCUTS = [
+  { key: 'j', label: 'j', description: 'Next card' },
+  { key: 'k', label: 'k', description: 'Previous card' },
+  { key: 'Enter', label: 'Enter', description: 'Play the focused video' },
+  { key: 'w', label: 'w', description: 'Toggle watched on the focused card' },
+  { key: '/', label: '/', description: 'Search this feed' },
+  { key: 'r', label: 'r', description: 'Refresh' },
+  { key: 'Escape', label: 'Esc', description: 'Close the player' },
+  { key: 'mod+k', label: 'Ctrl K', description: 'Command palette' },
+  { key: '?', label: '?', description: 'Show these shortcuts' }
+] as const
+
+export type ShortcutKey = typeof SHORTCUTS[number]['key']
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+export const shortcutLabel = (shortcut: typeof SHORTCUTS[number]) =>
+  isMac ? shortcut.label.replace('Ctrl ', '⌘') : shortcut.label
+
+// Typing in these must not trigger single-key shortcuts
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+// Maps a key event to a shortcut key, or null for keys with no shortcut
+export const matchShortcut = (event: KeyboardEvent): ShortcutKey | null => {
+  if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k') return 'mod+k'
+  if (event.ctrlKey || event.metaKey || event.altKey) return null
+  const shortcut = SHORTCUTS.find(s => s.key === event.key)
+  return shortcut ? shortcut.key : null
+}
@@ -0,0 +1,85 @@
+import type { FeedItem } from '@/types'
+import { isVideo } from '@/lib/feed'
+
+export type FeedSort =
+  | 'newest'
+  | 'oldest'
+  | 'unwatched'
+  | 'channel'
+  | 'longest'
+  | 'shortest'
+  | 'views'
+  | 'likes'
+  | 'comments'
+
+// How the feed is laid out: one section per channel, or a single timeline
+export type FeedLayout = 'grouped' | 'timeline'
+
+export const FEED_SORT_OPTIONS: { value: FeedSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'unwatched', label: 'Unwatched first' },
+  { value: 'channel', label: 'By channel' },
+  { value: 'longest', label: 'Longest' },
+  { value: 'shortest', label: 'Shortest' },
+  { value: 'views', label: 'Most viewed' },
+  { value: 'likes', label: 'Most liked' },
+  { value: 'comments', label: 'Most commented' }
+]
+
+export const isFeedSort = (value: unknown): value is FeedSort =>
+  FEED_SORT_OPTIONS.some(option => option.value === value)
+
+export interface SortContext {
+  watched?: Set<string>
+}
+
+// Community posts and videos with hidden counts sort after everything else
+const countOf = (item: FeedItem, field: 'viewCount' | 'likeCount' | 'commentCount') => {
+  if (!isVideo(item)) return -1
+  const value = item[field]
+  return value ? Number(value) : -1
+}
+
+// Community posts, live streams and premieres have no duration
+const durationOf = (item: FeedItem) =>
+  isVideo(item) ? item.durationSeconds : undefined
+
+const byNewest = (a: FeedItem, b: FeedItem) =>
+  new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+
+const byDuration = (direction: 1 | -1) => (a: FeedItem, b: FeedItem) => {
+  const aSeconds = durationOf(a)
+  const bSeconds = durationOf(b)
+  if (aSeconds === undefined || bSeconds === undefined) {
+    // Items without a duration go last in both directions
+    return (aSeconds === undefined ? 1 : 0) - (bSeconds === undefined ? 1 : 0) || byNewest(a, b)
+  }
+  return (aSeconds - bSeconds) * direction || byNewest(a, b)
+}
+
+export const sortFeedItems = (items: FeedItem[], sort: FeedSort, context: SortContext = {}) => {
+  const sorted = [...items]
+  switch (sort) {
+    case 'oldest':
+      return sorted.sort((a, b) => byNewest(b, a))
+    case 'unwatched': {
+      const watched = context.watched || new Set<string>()
+      return sorted.sort((a, b) => Number(watched.has(a.id)) - Number(watched.has(b.id)) || byNewest(a, b))
+    }
+    case 'channel':
+      return sorted.sort((a, b) => a.channelName.localeCompare(b.channelName) || byNewest(a, b))
+    case 'longest':
+      return sorted.sort(byDuration(-1))
+    case 'shortest':
+      return sorted.sort(byDuration(1))
+    case 'views':
+      return sorted.sort((a, b) => countOf(b, 'viewCount') - countOf(a, 'viewCount') || byNewest(a, b))
+    case 'likes':
+      return sorted.sort((a, b) => countOf(b, 'likeCount') - countOf(a, 'likeCount') || byNewest(a, b))
+    case 'comments':
+      return sorted.sort((a, b) => countOf(b, 'commentCount') - countOf(a, 'commentCount') || byNewest(a, b))
+    default:
+      return sorted.sort(byNewest)
+  }
+}
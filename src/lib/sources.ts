@@ -0,0 +1,90 @@
+import type { Channel, FeedItem, FetchSettings, SourceKind, Video } from '@/types'
+import type { ChannelFetchResult } from '@/lib/feed'
+import type { YouTubeClient } from '@/lib/youtube'
+
+export interface SourceFetchContext {
+  settings: FetchSettings
+  // Ids of every item already in the feed, for incremental refreshes
+  knownVideoIds: Set<string>
+  // Null when no API key is set
+  youtube: YouTubeClient | null
+  signal?: AbortSignal
+}
+
+// How the in-app player shows a video
+export type PlayerEmbed =
+  | { kind: 'youtube'; videoId: string }
+  | { kind: 'iframe'; url: string }
+  | { kind: 'media'; url: string }
+
+// The fields of a video the player and links need; a /watch link to a video that
+// isn't in the feed only has an id
+export type VideoRef = Pick<Video, 'id'> & Partial<Pick<Video, 'source' | 'url' | 'mediaUrl' | 'embedUrl'>>
+
+/**
+ * One platform channels can come from. Providers are registered in
+ * lib/providers.ts; channels and items name theirs in `source`.
+ */
+export interface SourceProvider {
+  kind: SourceKind
+  label: string
+  // Text of the player's link to the video on its own site
+  openLabel: string
+  // Whether a URL typed into the channel search belongs to this provider
+  matches: (input: string) => boolean
+  resolve: (input: string, youtube: YouTubeClient | null) => Promise<Channel>
+  fetchItems: (channel: Channel, context: SourceFetchContext) => Promise<ChannelFetchResult>
+  // Null when the video can only be watched on its own site
+  embed: (video: VideoRef, startSeconds?: number) => PlayerEmbed | null
+  watchUrl: (video: VideoRef) => string
+  channelUrl: (channel: Channel) => string
+  feedUrl: (channel: Channel) => string
+}
+
+export class SourceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SourceError'
+  }
+}
+
+export const sourceOf = (value: Channel | FeedItem | VideoRef): SourceKind =>
+  ('source' in value && value.source) || 'youtube'
+
+// Channels outside YouTube have no Shorts or community posts
+export const NON_YOUTUBE_CONTENT_TYPES: Channel['contentTypes'] = {
+  longForm: true,
+  shorts: false,
+  community: false
+}
+
+export const parseHttpUrl = (input: string) => {
+  try {
+    const url = new URL(input.trim())
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Fetches a URL on another site. Sites that send no CORS headers fail the same
+ * way as unreachable ones, so the error names both. Aborting rethrows the
+ * browser's AbortError.
+ */
+export async function fetchFromSource(url: string, signal?: AbortSignal): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, { signal })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error
+    throw new SourceError(`Could not load ${new URL(url).host}. The site may be down or may not allow other sites to read it.`)
+  }
+  if (response.status === 404) {
+    throw new SourceError(`Nothing was found at ${url}.`)
+  }
+  if (!response.ok) {
+    throw new SourceError(`${new URL(url).host} returned an error (HTTP ${response.status}).`)
+  }
+  return response
+}
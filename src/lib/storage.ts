@@ -0,0 +1,357 @@
+import { z } from 'zod'
+import type { Channel, FeedItem, FetchSettings, FilterRule, WatchProgress } from '@/types'
+
+const DB_NAME = 'channel-feed'
+// Bump together with onupgradeneeded when object stores change
+const DB_VERSION = 1
+const STATE_STORE = 'state'
+const META_STORE = 'meta'
+
+// Layout version of the values inside STATE_STORE, see MIGRATIONS
+export const SCHEMA_VERSION = 2
+
+// Keys the app used before the IndexedDB store existed, and still uses when
+// IndexedDB is unavailable
+const LEGACY_KEYS = {
+  channels: 'curatedChannels',
+  videos: 'cachedVideos',
+  watchedVideos: 'watchedVideos',
+  fetchSettings: 'fetchSettings',
+  groupOrder: 'channelGroupOrder',
+  filterRules: 'filterRules',
+  watchLater: 'watchLater',
+  watchProgress: 'watchProgress',
+  watchHistory: 'watchHistory',
+  dismissed: 'dismissedItems'
+} as const
+
+export interface StoredState {
+  channels: Channel[]
+  videos: FeedItem[]
+  watchedVideos: string[]
+  fetchSettings: Partial<FetchSettings>
+  // Display order of channel group names in the sidebar
+  groupOrder: string[]
+  filterRules: FilterRule[]
+  // Video ids in play order
+  watchLater: string[]
+  // Resume points keyed by video id
+  watchProgress: Record<string, WatchProgress>
+  // When each watched video was marked, keyed by video id
+  watchHistory: Record<string, string>
+  // Items hidden from the feed without being marked watched
+  dismissed: string[]
+}
+
+export type StateKey = keyof StoredState
+
+export interface LoadResult {
+  state: StoredState
+  // Human-readable names of entries that were unreadable and reset
+  recovered: string[]
+}
+
+type RawState = Partial<Record<StateKey, unknown>>
+
+interface Migration {
+  version: number
+  description: string
+  migrate: (state: RawState) => RawState
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Unwrap the { videos, timestamp } envelope of the legacy feed cache',
+    migrate: state => {
+      const videos = state.videos as { videos?: unknown } | unknown[] | undefined
+      if (videos && !Array.isArray(videos) && typeof videos === 'object') {
+        return { ...state, videos: videos.videos ?? [] }
+      }
+      return state
+    }
+  },
+  {
+    version: 2,
+    description: 'Fill in uploadsPlaylistId for channels added before it was cached',
+    migrate: state => {
+      if (!Array.isArray(state.channels)) return state
+      return {
+        ...state,
+        channels: state.channels.map(channel => {
+          // A channel's uploads playlist is its id with the UC prefix swapped for UU
+          if (channel && typeof channel.id === 'string' && !channel.uploadsPlaylistId && channel.id.startsWith('UC')) {
+            return { ...channel, uploadsPlaylistId: `UU${channel.id.slice(2)}` }
+          }
+          return channel
+        })
+      }
+    }
+  }
+]
+
+const runMigrations = (state: RawState, fromVersion: number) => {
+  let migrated = state
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      migrated = migration.migrate(migrated)
+    }
+  }
+  return migrated
+}
+
+// Validation - unknown fields are kept so newer builds can read older data and back
+export const channelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  thumbnail: z.string().catch(''),
+  source: z.enum(['youtube', 'rss', 'peertube']).optional(),
+  sourceUrl: z.string().optional(),
+  groups: z.array(z.string()).optional(),
+  notify: z.boolean().optional(),
+  contentTypes: z.object({
+    longForm: z.boolean(),
+    shorts: z.boolean(),
+    community: z.boolean()
+  })
+}).passthrough()
+
+const ruleBase = {
+  id: z.string(),
+  channelId: z.string().optional(),
+  enabled: z.boolean()
+}
+
+export const filterRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...ruleBase,
+    type: z.literal('title'),
+    mode: z.enum(['include', 'exclude']),
+    pattern: z.string(),
+    isRegex: z.boolean()
+  }),
+  z.object({ ...ruleBase, type: z.literal('minDuration'), seconds: z.number().nonnegative() }),
+  z.object({ ...ruleBase, type: z.literal('maxDuration'), seconds: z.number().nonnegative() }),
+  z.object({ ...ruleBase, type: z.literal('hideWatched') }),
+  z.object({ ...ruleBase, type: z.literal('olderThan'), days: z.number().positive() })
+])
+
+const watchProgressSchema = z.object({
+  position: z.number().nonnegative(),
+  duration: z.number().nonnegative(),
+  updatedAt: z.string()
+})
+
+const feedItemSchema = z.object({
+  id: z.string(),
+  channelId: z.string(),
+  channelName: z.string(),
+  publishedAt: z.string(),
+  type: z.enum(['longForm', 'shorts', 'community'])
+}).passthrough()
+
+const readArray = <T>(value: unknown, schema: z.ZodTypeAny, label: string, recovered: string[]): T[] => {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value)) {
+    recovered.push(label)
+    return []
+  }
+  const valid = value.filter(item => schema.safeParse(item).success)
+  if (valid.length < value.length) {
+    recovered.push(`${value.length - valid.length} ${label}`)
+  }
+  return valid as T[]
+}
+
+const readRecord = <T>(value: unknown, schema: z.ZodTypeAny, label: string, recovered: string[]): Record<string, T> => {
+  if (value === undefined || value === null) return {}
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    recovered.push(label)
+    return {}
+  }
+  const entries = Object.entries(value)
+  const valid = entries.filter(([, item]) => schema.safeParse(item).success)
+  if (valid.length < entries.length) {
+    recovered.push(`${entries.length - valid.length} ${label}`)
+  }
+  return Object.fromEntries(valid) as Record<string, T>
+}
+
+const validateState = (raw: RawState): LoadResult => {
+  const recovered: string[] = []
+  const fetchSettings = raw.fetchSettings
+  const validSettings = fetchSettings === undefined || fetchSettings === null ||
+    (typeof fetchSettings === 'object' && !Array.isArray(fetchSettings))
+  if (!validSettings) recovered.push('fetch settings')
+
+  return {
+    state: {
+      channels: readArray<Channel>(raw.channels, channelSchema, 'channels', recovered),
+      videos: readArray<FeedItem>(raw.videos, feedItemSchema, 'cached feed items', recovered),
+      watchedVideos: readArray<string>(raw.watchedVideos, z.string(), 'watched videos', recovered),
+      fetchSettings: validSettings ? (fetchSettings as Partial<FetchSettings>) || {} : {},
+      groupOrder: readArray<string>(raw.groupOrder, z.string(), 'channel group order', recovered),
+      filterRules: readArray<FilterRule>(raw.filterRules, filterRuleSchema, 'filter rules', recovered),
+      watchLater: readArray<string>(raw.watchLater, z.string(), 'Watch Later queue', recovered),
+      watchProgress: readRecord<WatchProgress>(raw.watchProgress, watchProgressSchema, 'resume points', recovered),
+      watchHistory: readRecord<string>(raw.watchHistory, z.string(), 'watch history entries', recovered),
+      dismissed: readArray<string>(raw.dismissed, z.string(), 'dismissed items', recovered)
+    },
+    recovered
+  }
+}
+
+// Reads the pre-IndexedDB localStorage entries, tolerating corrupt JSON
+const readLegacyState = (recovered: string[]): RawState => {
+  const state: RawState = {}
+  for (const [key, storageKey] of Object.entries(LEGACY_KEYS) as [StateKey, string][]) {
+    const saved = localStorage.getItem(storageKey)
+    if (saved === null) continue
+    try {
+      state[key] = JSON.parse(saved)
+    } catch {
+      recovered.push(storageKey)
+    }
+  }
+  return state
+}
+
+const clearLegacyState = () => {
+  for (const storageKey of Object.values(LEGACY_KEYS)) {
+    localStorage.removeItem(storageKey)
+  }
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE)
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+// Set when IndexedDB cannot be opened (e.g. some private browsing modes)
+let useLocalStorageFallback = false
+
+/**
+ * Loads the persisted app state. On first run the legacy localStorage entries are
+ * imported once; stored data is then migrated to SCHEMA_VERSION and validated,
+ * with unreadable entries reset and reported in `recovered`.
+ */
+export async function loadState(): Promise<LoadResult> {
+  const legacyRecovered: string[] = []
+  let db: IDBDatabase
+  try {
+    db = await openDatabase()
+  } catch (error) {
+    console.error('IndexedDB unavailable, falling back to localStorage:', error)
+    useLocalStorageFallback = true
+    const result = validateState(runMigrations(readLegacyState(legacyRecovered), 0))
+    return { ...result, recovered: [...legacyRecovered, ...result.recovered] }
+  }
+
+  const metaStore = db.transaction(META_STORE, 'readonly').objectStore(META_STORE)
+  const storedVersion = await promisify(metaStore.get('schemaVersion')) as number | undefined
+
+  let raw: RawState
+  let fromVersion: number
+  if (storedVersion === undefined) {
+    // First run with IndexedDB: import whatever localStorage still holds
+    raw = readLegacyState(legacyRecovered)
+    fromVersion = 0
+  } else {
+    raw = {}
+    const store = db.transaction(STATE_STORE, 'readonly').objectStore(STATE_STORE)
+    // Both requests are issued before awaiting so the transaction stays open
+    const [keys, values] = await Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())])
+    keys.forEach((key, index) => {
+      raw[key as StateKey] = values[index]
+    })
+    fromVersion = storedVersion
+  }
+
+  const result = validateState(runMigrations(raw, fromVersion))
+
+  if (fromVersion < SCHEMA_VERSION || result.recovered.length > 0 || legacyRecovered.length > 0) {
+    // Write the migrated, cleaned state back so this only happens once
+    const tx = db.transaction([STATE_STORE, META_STORE], 'readwrite')
+    for (const [key, value] of Object.entries(result.state)) {
+      tx.objectStore(STATE_STORE).put(value, key)
+    }
+    tx.objectStore(META_STORE).put(SCHEMA_VERSION, 'schemaVersion')
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+    if (storedVersion === undefined) clearLegacyState()
+  }
+
+  return { ...result, recovered: [...legacyRecovered, ...result.recovered] }
+}
+
+const pendingWrites = new Map<StateKey, unknown>()
+let flushTimeout: ReturnType<typeof setTimeout> | null = null
+
+const flushWrites = async () => {
+  flushTimeout = null
+  const writes = Array.from(pendingWrites.entries())
+  pendingWrites.clear()
+  if (writes.length === 0) return
+
+  if (useLocalStorageFallback) {
+    for (const [key, value] of writes) {
+      try {
+        localStorage.setItem(LEGACY_KEYS[key], JSON.stringify(value))
+      } catch (error) {
+        console.error(`Error saving ${key}:`, error)
+      }
+    }
+    return
+  }
+
+  try {
+    const db = await openDatabase()
+    const tx = db.transaction(STATE_STORE, 'readwrite')
+    for (const [key, value] of writes) {
+      tx.objectStore(STATE_STORE).put(value, key)
+    }
+  } catch (error) {
+    console.error('Error saving state:', error)
+  }
+}
+
+// Writes are batched briefly so streaming feed updates don't rewrite the store per item
+export function saveState<K extends StateKey>(key: K, value: StoredState[K]) {
+  pendingWrites.set(key, value)
+  if (!flushTimeout) {
+    flushTimeout = setTimeout(flushWrites, 250)
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => {
+    if (flushTimeout) {
+      clearTimeout(flushTimeout)
+      flushWrites()
+    }
+  })
+}
@@ -0,0 +1,124 @@
+import type { Channel } from '@/types'
+import { providerFor } from '@/lib/providers'
+import { sourceOf } from '@/lib/sources'
+
+export interface ImportCandidate {
+  id: string
+  title: string
+}
+
+export class SubscriptionFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SubscriptionFileError'
+  }
+}
+
+const CHANNEL_ID = /^UC[\w-]{22}$/
+
+// Splits one CSV line, honouring quoted fields with commas and doubled quotes
+const parseCsvLine = (line: string) => {
+  const fields: string[] = []
+  let field = ''
+  let inQuotes = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields.map(f => f.trim())
+}
+
+/**
+ * Parses Google Takeout's subscriptions.csv (Channel Id, Channel Url, Channel
+ * Title). The header row is optional and its language does not matter.
+ */
+export const parseTakeoutCsv = (text: string): ImportCandidate[] => {
+  const candidates: ImportCandidate[] = []
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    if (!line.trim()) continue
+    const [id, url, title] = parseCsvLine(line)
+    const channelId = CHANNEL_ID.test(id) ? id : url?.match(/channel\/(UC[\w-]{22})/)?.[1]
+    if (channelId) {
+      candidates.push({ id: channelId, title: title || channelId })
+    }
+  }
+  return candidates
+}
+
+// Reads channel ids from the xmlUrl (or htmlUrl) of every OPML outline
+export const parseOpml = (text: string): ImportCandidate[] => {
+  const doc = new DOMParser().parseFromString(text, 'text/xml')
+  if (doc.querySelector('parsererror')) {
+    throw new SubscriptionFileError('The OPML file is not valid XML.')
+  }
+  const candidates: ImportCandidate[] = []
+  for (const outline of Array.from(doc.querySelectorAll('outline'))) {
+    const url = outline.getAttribute('xmlUrl') || outline.getAttribute('htmlUrl') || ''
+    const channelId = url.match(/channel_id=(UC[\w-]{22})/)?.[1] || url.match(/channel\/(UC[\w-]{22})/)?.[1]
+    if (channelId) {
+      candidates.push({
+        id: channelId,
+        title: outline.getAttribute('title') || outline.getAttribute('text') || channelId
+      })
+    }
+  }
+  return candidates
+}
+
+export const parseSubscriptionFile = (filename: string, text: string): ImportCandidate[] => {
+  const looksLikeXml = /\.(opml|xml)$/i.test(filename) || text.trimStart().startsWith('<')
+  const candidates = looksLikeXml ? parseOpml(text) : parseTakeoutCsv(text)
+  if (candidates.length === 0) {
+    throw new SubscriptionFileError('No YouTube channels were found in this file.')
+  }
+  // Drop duplicates, keeping the first title seen
+  const seen = new Set<string>()
+  return candidates.filter(c => !seen.has(c.id) && seen.add(c.id))
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+// OPML 2.0 with one RSS outline per channel, readable by most feed readers
+export const buildOpml = (channels: Channel[]) => {
+  const outlines = channels.map(channel => {
+    const name = escapeXml(channel.name)
+    const provider = providerFor(sourceOf(channel))
+    return `    <outline type="rss" text="${name}" title="${name}" xmlUrl="${escapeXml(provider.feedUrl(channel))}" htmlUrl="${escapeXml(provider.channelUrl(channel))}"/>`
+  })
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    '    <title>Channel Feed subscriptions</title>',
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    '    <outline text="YouTube Subscriptions" title="YouTube Subscriptions">',
+    ...outlines.map(line => `  ${line}`),
+    '    </outline>',
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n')
+}
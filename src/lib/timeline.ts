@@ -0,0 +1,53 @@
+import type { FeedItem } from '@/types'
+import type { FeedSort } from '@/lib/sort'
+
+export interface TimelineSection {
+  // Separator shown above the items; empty when the sort has no natural sections
+  label: string
+  items: FeedItem[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Whole calendar days between the item and today, in local time
+const daysAgo = (publishedAt: string, now: Date) => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+  const published = new Date(publishedAt)
+  const startOfDay = new Date(published.getFullYear(), published.getMonth(), published.getDate()).getTime()
+  return Math.round((startOfToday - startOfDay) / DAY_MS)
+}
+
+export const dateBucket = (publishedAt: string, now = new Date()) => {
+  const days = daysAgo(publishedAt, now)
+  if (days <= 0) return 'Today'
+  if (days === 1) return 'Yesterday'
+  if (days < 7) return 'This week'
+  if (days < 30) return 'This month'
+  return 'Older'
+}
+
+/**
+ * Splits already sorted items into timeline sections: date separators for the
+ * date sorts, one section per channel for the channel sort, and a single
+ * unlabelled section otherwise. Consecutive items with the same label share a
+ * section, so the sort order is kept.
+ */
+export const buildTimeline = (items: FeedItem[], sort: FeedSort, now = new Date()): TimelineSection[] => {
+  const labelOf = sort === 'newest' || sort === 'oldest'
+    ? (item: FeedItem) => dateBucket(item.publishedAt, now)
+    : sort === 'channel'
+      ? (item: FeedItem) => item.channelName
+      : () => ''
+
+  const sections: TimelineSection[] = []
+  for (const item of items) {
+    const label = labelOf(item)
+    const last = sections[sections.length - 1]
+    if (last && last.label === label) {
+      last.items.push(item)
+    } else {
+      sections.push({ label, items: [item] })
+    }
+  }
+  return sections
+}
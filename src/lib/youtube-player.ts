@@ -0,0 +1,96 @@
+// Loader and types for the subset of the YouTube IFrame Player API the app uses
+// https://developers.google.com/youtube/iframe_api_reference
+
+export const PLAYER_STATE = {
+  unstarted: -1,
+  ended: 0,
+  playing: 1,
+  paused: 2,
+  buffering: 3,
+  cued: 5
+} as const
+
+export interface YouTubePlayer {
+  loadVideoById(videoId: string, startSeconds?: number): void
+  playVideo(): void
+  pauseVideo(): void
+  seekTo(seconds: number, allowSeekAhead: boolean): void
+  getCurrentTime(): number
+  getDuration(): number
+  getPlayerState(): number
+  destroy(): void
+}
+
+interface PlayerEvent {
+  target: YouTubePlayer
+  data: number
+}
+
+interface PlayerOptions {
+  videoId: string
+  width?: string | number
+  height?: string | number
+  playerVars?: Record<string, string | number>
+  events?: {
+    onReady?: (event: PlayerEvent) => void
+    onStateChange?: (event: PlayerEvent) => void
+    onError?: (event: PlayerEvent) => void
+  }
+}
+
+interface YouTubeIframeApi {
+  Player: new (element: HTMLElement, options: PlayerOptions) => YouTubePlayer
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeIframeApi
+    onYouTubeIframeAPIReady?: () => void
+  }
+}
+
+export class PlayerLoadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PlayerLoadError'
+  }
+}
+
+// Player error codes: 2 bad id, 5 HTML5 error, 100 removed or private, 101/150 embedding disabled
+export const describePlayerError = (code: number) => {
+  switch (code) {
+    case 100: return 'This video was removed or is private.'
+    case 101:
+    case 150: return 'The owner does not allow this video to be played outside YouTube.'
+    default: return 'This video could not be played.'
+  }
+}
+
+let apiPromise: Promise<YouTubeIframeApi> | null = null
+
+// Injects the API script once; later calls share the same promise
+export const loadYouTubeIframeApi = () => {
+  if (!apiPromise) {
+    apiPromise = new Promise((resolve, reject) => {
+      if (window.YT?.Player) {
+        resolve(window.YT)
+        return
+      }
+      const previousCallback = window.onYouTubeIframeAPIReady
+      window.onYouTubeIframeAPIReady = () => {
+        previousCallback?.()
+        resolve(window.YT)
+      }
+      const script = document.createElement('script')
+      script.src = 'https://www.youtube.com/iframe_api'
+      script.async = true
+      script.onerror = () => {
+        // Allow a retry the next time a player opens
+        apiPromise = null
+        reject(new PlayerLoadError('The YouTube player could not be loaded.'))
+      }
+      document.head.appendChild(script)
+    })
+  }
+  return apiPromise
+}
@@ -0,0 +1,320 @@
+import { z } from 'zod'
+import type { QuotaEndpoint } from '@/lib/quota'
+
+const API_BASE = 'https://www.googleapis.com/youtube/v3'
+
+// Response schemas - only the fields the app reads are declared, everything
+// else in the payload is ignored by zod's default object parsing.
+const thumbnailSchema = z.object({
+  url: z.string(),
+  width: z.number().optional(),
+  height: z.number().optional()
+})
+
+const thumbnailsSchema = z.object({
+  default: thumbnailSchema.optional(),
+  medium: thumbnailSchema.optional(),
+  high: thumbnailSchema.optional(),
+  standard: thumbnailSchema.optional(),
+  maxres: thumbnailSchema.optional()
+})
+
+const channelResourceSchema = z.object({
+  id: z.string(),
+  snippet: z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    customUrl: z.string().optional(),
+    thumbnails: thumbnailsSchema.optional()
+  }).optional(),
+  contentDetails: z.object({
+    relatedPlaylists: z.object({
+      uploads: z.string().optional()
+    }).optional()
+  }).optional()
+})
+
+const playlistItemResourceSchema = z.object({
+  id: z.string(),
+  snippet: z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    publishedAt: z.string(),
+    channelId: z.string().optional(),
+    thumbnails: thumbnailsSchema.optional(),
+    resourceId: z.object({
+      videoId: z.string().optional()
+    }).optional()
+  })
+})
+
+const videoResourceSchema = z.object({
+  id: z.string(),
+  contentDetails: z.object({
+    duration: z.string().optional()
+  }).optional(),
+  // Counts arrive as strings and are missing when the owner hides them
+  statistics: z.object({
+    viewCount: z.string().optional(),
+    likeCount: z.string().optional(),
+    commentCount: z.string().optional()
+  }).optional(),
+  snippet: z.object({
+    title: z.string().optional(),
+    channelId: z.string().optional(),
+    channelTitle: z.string().optional(),
+    description: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    categoryId: z.string().optional()
+  }).optional()
+})
+
+const searchResultResourceSchema = z.object({
+  id: z.object({
+    kind: z.string(),
+    channelId: z.string().optional(),
+    videoId: z.string().optional()
+  }),
+  snippet: z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    channelId: z.string().optional(),
+    thumbnails: thumbnailsSchema.optional()
+  })
+})
+
+const activityResourceSchema = z.object({
+  id: z.string(),
+  snippet: z.object({
+    type: z.string(),
+    publishedAt: z.string(),
+    description: z.string().optional(),
+    thumbnails: thumbnailsSchema.optional()
+  })
+})
+
+const listResponseSchema = <T extends z.ZodTypeAny>(item: T) => z.object({
+  items: z.array(item).default([]),
+  nextPageToken: z.string().optional(),
+  pageInfo: z.object({
+    totalResults: z.number().optional(),
+    resultsPerPage: z.number().optional()
+  }).optional()
+})
+
+const errorResponseSchema = z.object({
+  error: z.object({
+    code: z.number().optional(),
+    message: z.string().optional(),
+    errors: z.array(z.object({ reason: z.string().optional() })).optional(),
+    details: z.array(z.object({ reason: z.string().optional() })).optional()
+  })
+})
+
+export type Thumbnails = z.infer<typeof thumbnailsSchema>
+export type ChannelResource = z.infer<typeof channelResourceSchema>
+export type PlaylistItemResource = z.infer<typeof playlistItemResourceSchema>
+export type VideoResource = z.infer<typeof videoResourceSchema>
+export type SearchResultResource = z.infer<typeof searchResultResourceSchema>
+export type ActivityResource = z.infer<typeof activityResourceSchema>
+
+export type YouTubeErrorCode =
+  | 'invalidKey'
+  | 'quotaExceeded'
+  | 'rateLimited'
+  | 'notFound'
+  | 'network'
+  | 'invalidResponse'
+  | 'aborted'
+  | 'unknown'
+
+const ERROR_MESSAGES: Record<YouTubeErrorCode, string> = {
+  invalidKey: 'The YouTube API key is invalid or the YouTube Data API is not enabled for it.',
+  quotaExceeded: 'The daily YouTube API quota has been used up. It resets at midnight Pacific time.',
+  rateLimited: 'The YouTube API is receiving too many requests right now. Try again in a moment.',
+  notFound: 'The requested channel or playlist no longer exists.',
+  network: 'Could not reach the YouTube API. Check your connection.',
+  invalidResponse: 'The YouTube API returned a response the app could not read.',
+  aborted: 'The request was cancelled.',
+  unknown: 'The YouTube API request failed.'
+}
+
+export class YouTubeApiError extends Error {
+  code: YouTubeErrorCode
+  status?: number
+  reason?: string
+
+  constructor(code: YouTubeErrorCode, options: { message?: string; status?: number; reason?: string } = {}) {
+    super(options.message || ERROR_MESSAGES[code])
+    this.name = 'YouTubeApiError'
+    this.code = code
+    this.status = options.status
+    this.reason = options.reason
+  }
+
+  // Errors that will fail every following request the same way
+  get isFatal() {
+    return this.code === 'invalidKey' || this.code === 'quotaExceeded' || this.code === 'network'
+  }
+}
+
+export const describeError = (error: unknown) => {
+  if (error instanceof YouTubeApiError) return error.message
+  if (error instanceof Error) return error.message
+  return ERROR_MESSAGES.unknown
+}
+
+const classifyError = (status: number, body: unknown) => {
+  const parsed = errorResponseSchema.safeParse(body)
+  const reasons = parsed.success
+    ? [
+        ...(parsed.data.error.errors || []).map(e => e.reason),
+        ...(parsed.data.error.details || []).map(d => d.reason)
+      ].filter((r): r is string => Boolean(r))
+    : []
+  const apiMessage = parsed.success ? parsed.data.error.message : undefined
+  const reason = reasons[0]
+
+  if (reasons.some(r => r === 'keyInvalid' || r === 'API_KEY_INVALID' || r === 'accessNotConfigured') ||
+      apiMessage?.includes('API key not valid')) {
+    return new YouTubeApiError('invalidKey', { status, reason })
+  }
+  if (reasons.some(r => r === 'quotaExceeded' || r === 'dailyLimitExceeded')) {
+    return new YouTubeApiError('quotaExceeded', { status, reason })
+  }
+  // A short-term limit on request rate, not the daily quota: later requests can still succeed
+  if (reasons.some(r => r === 'rateLimitExceeded' || r === 'userRateLimitExceeded')) {
+    return new YouTubeApiError('rateLimited', { status, reason })
+  }
+  if (status === 404 || reasons.some(r => r.endsWith('NotFound'))) {
+    return new YouTubeApiError('notFound', { status, reason })
+  }
+  return new YouTubeApiError('unknown', {
+    status,
+    reason,
+    message: apiMessage ? `YouTube API error: ${apiMessage}` : undefined
+  })
+}
+
+type QueryValue = string | number | undefined
+
+export interface YouTubeClientOptions {
+  // Called once per request before it is sent; the API charges quota even for failed calls
+  onRequest?: (endpoint: QuotaEndpoint) => void
+  // Cancels every in-flight and future request made through this client
+  signal?: AbortSignal
+}
+
+export function createYouTubeClient(apiKey: string, options: YouTubeClientOptions = {}) {
+  const request = async <S extends z.ZodTypeAny>(
+    endpoint: QuotaEndpoint,
+    params: Record<string, QueryValue>,
+    schema: S
+  ): Promise<z.infer<S>> => {
+    const url = new URL(`${API_BASE}/${endpoint}`)
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') {
+        url.searchParams.set(name, String(value))
+      }
+    }
+    url.searchParams.set('key', apiKey)
+    if (options.signal?.aborted) {
+      throw new YouTubeApiError('aborted')
+    }
+    options.onRequest?.(endpoint)
+
+    let response: Response
+    try {
+      response = await fetch(url.toString(), { signal: options.signal })
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw new YouTubeApiError('aborted')
+      }
+      throw new YouTubeApiError('network', { message: error instanceof Error ? `${ERROR_MESSAGES.network} (${error.message})` : undefined })
+    }
+
+    let body: unknown
+    try {
+      body = await response.json()
+    } catch {
+      throw new YouTubeApiError(response.ok ? 'invalidResponse' : 'unknown', { status: response.status })
+    }
+
+    if (!response.ok) {
+      throw classifyError(response.status, body)
+    }
+
+    const parsed = schema.safeParse(body)
+    if (!parsed.success) {
+      console.error(`Unexpected ${endpoint} response:`, parsed.error.issues)
+      throw new YouTubeApiError('invalidResponse', { status: response.status })
+    }
+    return parsed.data
+  }
+
+  return {
+    // Looks channels up by id, or one channel by @handle or legacy username
+    channels: (params: { id?: string | string[]; forHandle?: string; forUsername?: string; part?: string }) =>
+      request('channels', {
+        part: params.part || 'snippet,contentDetails',
+        id: Array.isArray(params.id) ? params.id.join(',') : params.id,
+        forHandle: params.forHandle,
+        forUsername: params.forUsername
+      }, listResponseSchema(channelResourceSchema)),
+
+    playlistItems: (params: { playlistId: string; maxResults?: number; pageToken?: string }) =>
+      request('playlistItems', {
+        part: 'snippet',
+        playlistId: params.playlistId,
+        maxResults: params.maxResults,
+        pageToken: params.pageToken
+      }, listResponseSchema(playlistItemResourceSchema)),
+
+    videos: (params: { id: string[]; part?: string }) =>
+      request('videos', {
+        // All three parts cost the same single unit per 50 ids
+        part: params.part || 'contentDetails,statistics,snippet',
+        id: params.id.join(',')
+      }, listResponseSchema(videoResourceSchema)),
+
+    search: (params: { q: string; type?: string; maxResults?: number }) =>
+      request('search', {
+        part: 'snippet',
+        q: params.q,
+        type: params.type || 'channel',
+        maxResults: params.maxResults
+      }, listResponseSchema(searchResultResourceSchema)),
+
+    activities: (params: { channelId: string; maxResults?: number; publishedAfter?: string }) =>
+      request('activities', {
+        part: 'snippet',
+        channelId: params.channelId,
+        maxResults: params.maxResults,
+        publishedAfter: params.publishedAfter
+      }, listResponseSchema(activityResourceSchema))
+  }
+}
+
+export type YouTubeClient = ReturnType<typeof createYouTubeClient>
+
+// Standard video category ids; they are stable, so this saves a videoCategories call
+export const VIDEO_CATEGORIES: Record<string, string> = {
+  '1': 'Film & Animation',
+  '2': 'Autos & Vehicles',
+  '10': 'Music',
+  '15': 'Pets & Animals',
+  '17': 'Sports',
+  '19': 'Travel & Events',
+  '20': 'Gaming',
+  '22': 'People & Blogs',
+  '23': 'Comedy',
+  '24': 'Entertainment',
+  '25': 'News & Politics',
+  '26': 'Howto & Style',
+  '27': 'Education',
+  '28': 'Science & Technology',
+  '29': 'Nonprofits & Activism'
+}
+
+export const getThumbnailUrl = (thumbnails?: Thumbnails) =>
+  thumbnails?.high?.url || thumbnails?.medium?.url || thumbnails?.default?.url || ''
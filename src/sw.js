@@ -0,0 +1,109 @@
+// Service worker for offline use. The feed itself lives in IndexedDB, so this
+// only has to keep the app shell and the thumbnails available. The build emits
+// it as /sw.js with BUILD_ID and BUILD_ASSETS filled in (see vite.config.ts).
+//  - Pages: network first, falling back to the cached shell for every app route
+//  - Built assets (/assets/*, hashed by Vite): precached per build, cache first
+//  - Thumbnails: cache first, in a cache bounded to MAX_THUMBNAILS entries
+//  - Everything else, including YouTube API calls: straight to the network
+
+const BUILD_ID = '__BUILD_ID__'
+const BUILD_ASSETS = [/* __BUILD_ASSETS__ */]
+
+// A new build gets a new shell cache, and activating it drops the old one with its stale assets
+const SHELL_CACHE = `channel-feed-shell-${BUILD_ID}`
+const THUMBNAIL_CACHE = 'channel-feed-thumbnails-v1'
+const MAX_THUMBNAILS = 500
+
+const SHELL_FILES = ['/', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png']
+
+const THUMBNAIL_HOSTS = ['i.ytimg.com', 'yt3.ggpht.com', 'yt3.googleusercontent.com']
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll([...SHELL_FILES, ...BUILD_ASSETS]))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', event => {
+  const current = [SHELL_CACHE, THUMBNAIL_CACHE]
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => !current.includes(name)).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request))
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request))
+  } else if (THUMBNAIL_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleThumbnail(request, event))
+  }
+})
+
+const handleNavigation = async request => {
+  // App routes all render index.html, so they share one entry under /; static
+  // pages such as /readme.html are kept under their own URL
+  const isStaticPage = /\.(html|txt)$/.test(new URL(request.url).pathname)
+  const cacheKey = isStaticPage ? request.url : '/'
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE)
+      await cache.put(cacheKey, response.clone())
+    }
+    return response
+  } catch {
+    const cached = await caches.match(cacheKey)
+    return cached || Response.error()
+  }
+}
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+const handleThumbnail = async (request, event) => {
+  const cache = await caches.open(THUMBNAIL_CACHE)
+  const cached = await cache.match(request.url)
+  if (cached) {
+    // Re-adding moves the entry to the end, so eviction drops the least recently shown
+    const copy = cached.clone()
+    event.waitUntil(cache.delete(request.url).then(() => cache.put(request.url, copy)))
+    return cached
+  }
+
+  let response
+  try {
+    // Ask for a CORS response; opaque responses can't be size-checked and count
+    // heavily against the storage quota, so those are passed through uncached
+    response = await fetch(request.url, { mode: 'cors', credentials: 'omit' })
+  } catch {
+    return fetch(request)
+  }
+  if (response.ok) {
+    event.waitUntil(cache.put(request.url, response.clone()).then(() => trimCache(cache, MAX_THUMBNAILS)))
+  }
+  return response
+}
+
+// Cache keys come back in insertion order, oldest first
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)))
+}
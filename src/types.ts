@@ -0,0 +1,111 @@
+// Platform a channel and its items come from; missing means YouTube
+export type SourceKind = 'youtube' | 'rss' | 'peertube'
+
+export interface Channel {
+  id: string
+  name: string
+  thumbnail: string
+  source?: SourceKind
+  // Feed URL of an RSS/Atom channel, or the channel page of a PeerTube channel
+  sourceUrl?: string
+  uploadsPlaylistId?: string
+  // publishedAt of the newest item fetched so far; refreshes only look past it
+  lastSeenAt?: string
+  // User-defined groups such as "Tech" or "Music"; a channel can be in several
+  groups?: string[]
+  // Show a desktop notification when an auto-refresh finds new uploads
+  notify?: boolean
+  contentTypes: {
+    longForm: boolean
+    shorts: boolean
+    community: boolean
+  }
+}
+
+export interface Video {
+  id: string
+  title: string
+  thumbnail: string
+  channelName: string
+  channelId: string
+  publishedAt: string
+  viewCount: string
+  likeCount?: string
+  commentCount?: string
+  description?: string
+  tags?: string[]
+  category?: string
+  // Formatted for the badge (e.g. 1:02:03); empty for live streams and premieres
+  duration: string
+  durationSeconds?: number
+  type: 'longForm' | 'shorts' | 'community'
+  source?: SourceKind
+  // Page, media file and embed player of a video outside YouTube
+  url?: string
+  mediaUrl?: string
+  embedUrl?: string
+}
+
+export interface CommunityPost {
+  id: string
+  content: string
+  thumbnail: string
+  channelName: string
+  channelId: string
+  publishedAt: string
+  type: 'community'
+}
+
+export type FeedItem = Video | CommunityPost
+
+export type ContentType = 'longForm' | 'shorts' | 'community'
+
+export type QuotaBudgetMode = 'warn' | 'block'
+
+// Where uploads come from: the Data API, the public Atom feeds, or the Atom
+// feeds with one API lookup per channel for durations and statistics
+export type FeedSource = 'api' | 'atom' | 'atomEnriched'
+
+export interface FetchSettings {
+  maxVideosPerChannel: number
+  timeRangeDays: number
+  dailyQuotaBudget: number
+  quotaBudgetMode: QuotaBudgetMode
+  // How many channels are fetched at the same time during a refresh
+  fetchConcurrency: number
+  // Videos up to this length count as Shorts (YouTube allows up to 3 minutes)
+  shortsMaxSeconds: number
+  // Mark a video watched once this share of it has played; 0 turns it off
+  autoMarkWatchedPercent: number
+  // Refresh in the background every this many minutes; 0 turns it off
+  autoRefreshMinutes: number
+  feedSource: FeedSource
+}
+
+// Last known playback position of a video in the player, in seconds
+export interface WatchProgress {
+  position: number
+  duration: number
+  updatedAt: string
+}
+
+// Hides feed items; per-channel when `channelId` is set, otherwise for every channel
+export type FilterRule = {
+  id: string
+  channelId?: string
+  enabled: boolean
+} & (
+  // `include` rules hide items whose title matches none of them
+  | { type: 'title'; mode: 'include' | 'exclude'; pattern: string; isRegex: boolean }
+  | { type: 'minDuration' | 'maxDuration'; seconds: number }
+  | { type: 'hideWatched' }
+  | { type: 'olderThan'; days: number }
+)
+
+export type ChannelFetchState = 'pending' | 'loading' | 'done' | 'error' | 'cancelled'
+
+export interface ChannelFetchStatus {
+  state: ChannelFetchState
+  itemCount?: number
+  error?: string
+}
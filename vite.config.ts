@@ -1,12 +1,94 @@
+import { createHash } from "crypto"
+import { readFileSync } from "fs"
+import type { IncomingMessage, ServerResponse } from "http"
 import path from "path"
 import react from "@vitejs/plugin-react"
-import { defineConfig } from "vite"
+import { defineConfig, Plugin } from "vite"
 import sourceIdentifierPlugin from 'vite-plugin-source-identifier'
 
 const isProd = process.env.BUILD_MODE === 'prod'
+
+// Most podcast and video feeds, YouTube's channel feeds included, send no CORS
+// headers, so the app reads every feed through this path of the dev and preview
+// servers (see src/lib/feed-proxy.ts)
+const FEED_PROXY_PATH = '/feed-proxy'
+// Marks the proxy's own answers, so the app can tell when it isn't running
+const FEED_PROXY_HEADER = 'x-feed-proxy'
+
+// Any page that can reach the server can make it fetch, so slow hosts are cut off
+const FEED_PROXY_TIMEOUT_MS = 15_000
+
+const looksLikeFeed = (body: string) => /<(rss|feed|rdf:RDF)[\s>]/.test(body.slice(0, 2048))
+
+const parseFeedTarget = (value: string | null) => {
+  try {
+    const url = new URL(value ?? '')
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+const proxyFeed = async (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader(FEED_PROXY_HEADER, '1')
+  const target = parseFeedTarget(new URL(req.url ?? '/', 'http://localhost').searchParams.get('url'))
+  if (req.method !== 'GET' || !target) {
+    res.statusCode = 400
+    res.end('Expected GET with an http(s) feed URL')
+    return
+  }
+  try {
+    const upstream = await fetch(target, {
+      headers: { accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8' },
+      signal: AbortSignal.timeout(FEED_PROXY_TIMEOUT_MS),
+    })
+    const body = await upstream.text()
+    // Only feeds are passed on, so the proxy can't be used to read arbitrary pages
+    if (upstream.ok && !looksLikeFeed(body)) {
+      res.statusCode = 502
+      res.end('This is not an RSS or Atom feed.')
+      return
+    }
+    res.statusCode = upstream.status
+    res.setHeader('content-type', upstream.ok ? 'application/xml; charset=utf-8' : 'text/plain; charset=utf-8')
+    res.end(upstream.ok ? body : `The feed returned HTTP ${upstream.status}.`)
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError'
+    res.statusCode = timedOut ? 504 : 502
+    res.end(timedOut ? `${target.host} took too long to answer.` : `Could not reach ${target.host}.`)
+  }
+}
+
+const feedProxyPlugin = (): Plugin => ({
+  name: 'channel-feed-rss-proxy',
+  configureServer(server) {
+    server.middlewares.use(FEED_PROXY_PATH, proxyFeed)
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(FEED_PROXY_PATH, proxyFeed)
+  },
+})
+
+// Emits src/sw.js as /sw.js with this build's hashed assets to precache, so the
+// first visit already leaves everything needed to start offline
+const serviceWorkerPlugin = (): Plugin => ({
+  name: 'channel-feed-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const assets = Object.keys(bundle).filter(fileName => fileName.startsWith('assets/')).sort()
+    const buildId = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12)
+    const source = readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf8')
+      .replace('__BUILD_ID__', buildId)
+      .replace('/* __BUILD_ASSETS__ */', assets.map(fileName => JSON.stringify(`/${fileName}`)).join(', '))
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+  },
+})
 export default defineConfig({
   plugins: [
     react(),
+    serviceWorkerPlugin(),
+    feedProxyPlugin(),
     sourceIdentifierPlugin({
       enabled: !isProd,
       attributePrefix: 'data-matrix',